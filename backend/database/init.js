@@ -10,6 +10,11 @@ use strive_db;
 // ============================================
 // db.users.drop();
 // db.activities.drop();
+// db.best_efforts.drop();
+// db.sessions.drop();
+// db.refresh_tokens.drop();
+// db.auth_tokens.drop();
+// db.rate_limits.drop();
 
 // ============================================
 // CREATE INDEXES
@@ -24,6 +29,33 @@ db.users.createIndex({ "email": 1 }, { unique: true });
 db.activities.createIndex({ "id": 1 }, { unique: true });
 db.activities.createIndex({ "user_id": 1, "start_time": -1 });
 db.activities.createIndex({ "user_id": 1, "activity_type": 1 });
+db.activities.createIndex({ "user_id": 1, "distance": -1, "id": -1 });
+db.activities.createIndex({ "user_id": 1, "duration": -1, "id": -1 });
+db.activities.createIndex({ "user_id": 1, "avg_speed": -1, "id": -1 });
+// Trash listing and purge (only trashed activities are indexed)
+db.activities.createIndex({ "deleted_at": 1 }, { partialFilterExpression: { "deleted_at": { $exists: true } } });
+db.activities.createIndex({ "replaced_by": 1 }, { partialFilterExpression: { "replaced_by": { $exists: true } } });
+
+// Best efforts indexes
+db.best_efforts.createIndex({ "activity_id": 1 });
+db.best_efforts.createIndex({ "user_id": 1, "activity_type": 1, "name": 1, "elapsed_time": 1 });
+
+// Sessions and refresh tokens indexes (expired documents are removed by the TTL indexes)
+db.sessions.createIndex({ "id": 1 }, { unique: true });
+db.sessions.createIndex({ "user_id": 1, "last_seen_at": -1 });
+db.sessions.createIndex({ "expires_at": 1 }, { expireAfterSeconds: 0 });
+db.refresh_tokens.createIndex({ "token_hash": 1 }, { unique: true });
+db.refresh_tokens.createIndex({ "session_id": 1 });
+db.refresh_tokens.createIndex({ "expires_at": 1 }, { expireAfterSeconds: 0 });
+
+// Email tokens indexes (password reset, email verification)
+db.auth_tokens.createIndex({ "token_hash": 1 }, { unique: true });
+db.auth_tokens.createIndex({ "user_id": 1, "purpose": 1 });
+db.auth_tokens.createIndex({ "expires_at": 1 }, { expireAfterSeconds: 0 });
+
+// Rate limiting indexes (only used with RATE_LIMIT_STORE=mongo)
+db.rate_limits.createIndex({ "key": 1 }, { unique: true });
+db.rate_limits.createIndex({ "expires_at": 1 }, { expireAfterSeconds: 0 });
 
 print("✅ Indexes created successfully!");
 
@@ -33,6 +65,7 @@ print("✅ Indexes created successfully!");
 print("Creating demo user...");
 
 // Demo user (password: "demo1234")
+// Seeded with a legacy SHA256 hash, upgraded to scrypt on first login
 // SHA256 hash of "demo1234" = "6c4faa7f2378c5e5b8f8b3e1d6e2f0c7a8b9d0e1f2a3b4c5d6e7f8a9b0c1d2e3"
 const demoUserId = "demo-user-0001-0001-000000000001";
 
@@ -43,6 +76,8 @@ db.users.updateOne(
       id: demoUserId,
       name: "Utilisateur Demo",
       email: "demo@strive.app",
+      email_verified: true,
+      pending_email: null,
       password_hash: "937e8d5fbb48bd4949536cd65b8d35c426b80d2f830c5c308e2cdec422ae2244",
       photo: null,
       created_at: new Date()
@@ -67,6 +102,10 @@ db.activities.updateOne(
       id: sampleActivityId,
       user_id: demoUserId,
       activity_type: "running",
+      title: "Course du matin",
+      description: null,
+      perceived_exertion: null,
+      tags: [],
       gps_points: [
         {
           latitude: 48.8566,
@@ -103,9 +142,16 @@ db.activities.updateOne(
       ],
       distance: 5230,
       duration: 1800,
+      elapsed_time: 1800,
+      moving_time: 1800,
+      stops: [],
       avg_speed: 10.46,
       start_time: new Date("2025-01-15T08:00:00.000Z"),
       end_time: new Date("2025-01-15T08:30:00.000Z"),
+      elevation_gain: 3,
+      elevation_loss: 0,
+      min_altitude: 35,
+      max_altitude: 40,
       created_at: new Date("2025-01-15T08:30:05.000Z")
     }
   },
@@ -9,7 +9,14 @@
   "id": "string (UUID)",           // Identifiant unique
   "name": "string",                 // Nom de l'utilisateur
   "email": "string",                // Email (unique, lowercase)
-  "password_hash": "string",        // Mot de passe hashé (SHA256)
+  "email_verified": "boolean",      // Email confirmé via le lien envoyé par email
+  "pending_email": "string | null", // Nouvel email en attente de confirmation
+  "two_factor_enabled": "boolean",  // Double authentification (TOTP) activée
+  "two_factor_secret": "string | null",          // Secret TOTP (base32)
+  "two_factor_pending_secret": "string | null",  // Secret en attente de confirmation
+  "two_factor_last_counter": "number | null",    // Dernier pas TOTP accepté (anti-rejeu)
+  "recovery_codes": ["string"],     // SHA256 des codes de récupération non utilisés
+  "password_hash": "string",        // scrypt$N$r$p$sel$hash (les anciens SHA256 sont migrés à la connexion)
   "photo": "string | null",         // Photo de profil (base64)
   "created_at": "Date"              // Date de création
 }
@@ -23,7 +30,10 @@
   "id": "550e8400-e29b-41d4-a716-446655440000",
   "name": "Jean Dupont",
   "email": "jean@example.com",
-  "password_hash": "5e884898da28047d9...",
+  "email_verified": true,
+  "pending_email": null,
+  "two_factor_enabled": false,
+  "password_hash": "scrypt$32768$8$1$c2FsdA...$aGFzaA...",
   "photo": null,
   "created_at": "2025-01-15T10:30:00.000Z"
 }
@@ -37,6 +47,10 @@
   "id": "string (UUID)",            // Identifiant unique
   "user_id": "string (UUID)",       // Référence vers users.id
   "activity_type": "string",        // Type: "running" | "cycling" | "walking" | "hiking"
+  "title": "string",                // Titre, par défaut selon le type et l'heure ("Course du matin")
+  "description": "string | null",   // Notes libres
+  "perceived_exertion": "number | null", // Effort ressenti de 1 à 10
+  "tags": ["string"],               // Étiquettes libres
   "gps_points": [                   // Liste des points GPS
     {
       "latitude": "number",         // Latitude (-90 à 90)
@@ -48,22 +62,46 @@
     }
   ],
   "distance": "number",             // Distance totale en mètres
-  "duration": "number",             // Durée totale en secondes
-  "avg_speed": "number",            // Vitesse moyenne en km/h
+  "duration": "number",             // Durée totale en secondes (identique à elapsed_time)
+  "elapsed_time": "number",         // Temps écoulé entre le premier et le dernier point, en secondes
+  "moving_time": "number",          // Temps en mouvement en secondes (temps écoulé moins les arrêts)
+  "avg_speed": "number",            // Vitesse moyenne en km/h sur le temps en mouvement
+  "stops": "array",                 // Arrêts détectés: start_time, end_time, duration (s), latitude, longitude
   "start_time": "Date",             // Heure de début
   "end_time": "Date",               // Heure de fin
-  "created_at": "Date"              // Date de création
+  "elevation_gain": "number | null", // Dénivelé positif en mètres (altitudes lissées, null sans altitude)
+  "elevation_loss": "number | null", // Dénivelé négatif en mètres
+  "min_altitude": "number | null",  // Altitude minimale en mètres
+  "max_altitude": "number | null",  // Altitude maximale en mètres
+  "summary_polyline": "string",     // Tracé simplifié (Douglas-Peucker 10 m), polyline encodée Google, pour les listes
+  "laps": "array (optionnel)",      // Tours importés: start_time, end_time, distance, duration, avg_speed
+  "cropped_at": "Date (optionnel)", // Date du recadrage, absent si la trace est complète
+  "original_track": "object (optionnel)", // Trace d'origine (gps_points, laps) gardée pour annuler le recadrage, jamais envoyée au client
+  "derived_from": ["string"],       // Activités d'origine d'une division ou d'une fusion (optionnel)
+  "replaced_by": ["string"],        // Activités issues de la division ou fusion de celle-ci; masquée tant que présent (optionnel)
+  "replaced_at": "Date",            // Date de la division ou fusion (optionnel)
+  "deleted_at": "Date",             // Mise à la corbeille, purge définitive après 30 jours (optionnel)
+  "client_metrics": "object",       // Valeurs envoyées par le client (audit): distance, duration, avg_speed, start_time, end_time
+  "source": "string",               // Origine: "app" | "gpx" | "tcx" | "fit"
+  "created_at": "Date",             // Date de création
+  "updated_at": "Date"              // Dernière modification des métadonnées (optionnel)
 }
 
 // Index recommandés:
 // - { "id": 1 } (unique)
 // - { "user_id": 1, "start_time": -1 } (pour les requêtes par utilisateur)
+// - { "user_id": 1, "distance": -1, "id": -1 }, idem pour "duration" et "avg_speed" (tris de la liste)
+// - { "deleted_at": 1 } et { "replaced_by": 1 }, partiels (corbeille et purge)
 
 // Exemple:
 {
   "id": "660e8400-e29b-41d4-a716-446655440001",
   "user_id": "550e8400-e29b-41d4-a716-446655440000",
   "activity_type": "running",
+  "title": "Course du matin",
+  "description": null,
+  "perceived_exertion": 6,
+  "tags": ["fractionné"],
   "gps_points": [
     {
       "latitude": 48.8566,
@@ -84,8 +122,127 @@
   ],
   "distance": 5230,
   "duration": 1800,
-  "avg_speed": 10.46,
+  "elapsed_time": 1800,
+  "moving_time": 1750,
+  "avg_speed": 10.76,
+  "stops": [
+    {
+      "start_time": "2025-01-15T08:12:10.000Z",
+      "end_time": "2025-01-15T08:13:00.000Z",
+      "duration": 50,
+      "latitude": 48.8601,
+      "longitude": 2.3542
+    }
+  ],
   "start_time": "2025-01-15T08:00:00.000Z",
   "end_time": "2025-01-15T08:30:00.000Z",
+  "elevation_gain": 0,
+  "elevation_loss": 0,
+  "min_altitude": 35,
+  "max_altitude": 36,
   "created_at": "2025-01-15T08:30:05.000Z"
 }
+
+
+// ============================================
+// COLLECTION: best_efforts
+// ============================================
+// Meilleurs temps sur les distances de référence, calculés à l'enregistrement de chaque activité
+{
+  "id": "string (UUID)",            // Identifiant unique
+  "user_id": "string (UUID)",       // Référence vers users.id
+  "activity_id": "string (UUID)",   // Référence vers activities.id
+  "activity_type": "string",        // Type de l'activité (les records sont par type)
+  "name": "string",                 // Distance: "400m" | "1k" | "1mile" | "5k" | "10k" | "half_marathon" | "marathon" | "20k" | "40k" | "100k"
+  "distance": "number",             // Distance en mètres
+  "elapsed_time": "number",         // Temps en secondes
+  "start_index": "number",          // Premier point GPS de l'effort
+  "end_index": "number",            // Dernier point GPS de l'effort
+  "start_time": "Date",             // Début de l'effort
+  "created_at": "Date"              // Date de création
+}
+
+// Index recommandés:
+// - { "activity_id": 1 }
+// - { "user_id": 1, "activity_type": 1, "name": 1, "elapsed_time": 1 } (records et classement)
+
+
+// ============================================
+// COLLECTION: sessions
+// ============================================
+// Une session par connexion (appareil), révocable à distance
+{
+  "id": "string (UUID)",            // Identifiant unique (claim "sid" des access tokens)
+  "user_id": "string (UUID)",       // Référence vers users.id
+  "device_name": "string | null",   // Nom de l'appareil envoyé à la connexion
+  "platform": "string | null",      // ios, android, web
+  "ip": "string | null",            // Dernière adresse IP vue
+  "created_at": "Date",             // Date de connexion
+  "last_seen_at": "Date",           // Dernière utilisation (précision: 1 minute)
+  "expires_at": "Date",             // Expiration (30 jours après le dernier refresh)
+  "revoked_at": "Date | null"       // Date de déconnexion
+}
+
+// Index recommandés:
+// - { "id": 1 } (unique)
+// - { "user_id": 1, "last_seen_at": -1 }
+// - { "expires_at": 1 } (TTL, expireAfterSeconds: 0)
+
+
+// ============================================
+// COLLECTION: refresh_tokens
+// ============================================
+// Jetons de rafraîchissement (usage unique, renouvelés à chaque refresh)
+{
+  "id": "string (UUID)",            // Identifiant unique
+  "user_id": "string (UUID)",       // Référence vers users.id
+  "session_id": "string (UUID)",    // Référence vers sessions.id
+  "token_hash": "string",           // SHA256 du jeton (le jeton lui-même n'est jamais stocké)
+  "created_at": "Date",             // Date d'émission
+  "expires_at": "Date",             // Expiration (30 jours)
+  "used_at": "Date | null",         // Date d'échange contre un nouveau jeton
+  "revoked_at": "Date | null"       // Date de révocation (déconnexion ou réutilisation détectée)
+}
+
+// Index recommandés:
+// - { "token_hash": 1 } (unique)
+// - { "session_id": 1 }
+// - { "expires_at": 1 } (TTL, expireAfterSeconds: 0)
+
+
+// ============================================
+// COLLECTION: auth_tokens
+// ============================================
+// Jetons à usage unique envoyés par email (réinitialisation du mot de passe, vérification d'email)
+{
+  "id": "string (UUID)",            // Identifiant unique
+  "user_id": "string (UUID)",       // Référence vers users.id
+  "purpose": "string",              // password_reset | email_verification
+  "email": "string",                // Adresse à confirmer (email_verification uniquement)
+  "token_hash": "string",           // SHA256 du jeton
+  "created_at": "Date",             // Date d'émission
+  "expires_at": "Date",             // Expiration (1 heure, 48 heures pour la vérification)
+  "used_at": "Date | null"          // Date d'utilisation (ou remplacement par un nouveau jeton)
+}
+
+// Index recommandés:
+// - { "token_hash": 1 } (unique)
+// - { "user_id": 1, "purpose": 1 }
+// - { "expires_at": 1 } (TTL, expireAfterSeconds: 0)
+
+
+// ============================================
+// COLLECTION: rate_limits
+// ============================================
+// Compteurs de limitation de débit partagés entre instances (RATE_LIMIT_STORE=mongo)
+{
+  "key": "string",                  // ex: "login:ip:1.2.3.4", "lockout:login:jean@example.com"
+  "hits": ["Date"],                 // Requêtes dans la fenêtre glissante
+  "failures": "number",             // Échecs de connexion consécutifs (clés lockout:*)
+  "locked_until": "Date",           // Fin du blocage du compte (clés lockout:*)
+  "expires_at": "Date"              // Suppression automatique (TTL)
+}
+
+// Index recommandés:
+// - { "key": 1 } (unique)
+// - { "expires_at": 1 } (TTL, expireAfterSeconds: 0)
@@ -0,0 +1,250 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Filter } from 'mongodb';
+import { Collections } from './database';
+import { computeActivityMetrics, computeTiming, findImplausibility } from './metrics';
+import { saveBestEfforts, replaceBestEfforts } from './records';
+import { summaryPolyline } from './polyline';
+import { Activity, ActivitySource, ActivityUpdate, GPSPoint, NewActivity, NewRecord } from './types';
+
+// Saved activity along with the personal records it set
+export type CreatedActivity = Activity & { new_records: NewRecord[] };
+
+export class ActivityRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActivityRejectedError';
+  }
+}
+
+export class ActivityNotFoundError extends Error {
+  constructor() {
+    super('Activity not found');
+    this.name = 'ActivityNotFoundError';
+  }
+}
+
+const TITLE_NOUNS: Record<string, string> = {
+  running: 'Course',
+  cycling: 'Sortie vélo',
+  walking: 'Marche',
+  hiking: 'Randonnée',
+};
+
+function titleNoun(activityType: string): string {
+  return TITLE_NOUNS[activityType] || 'Activité';
+}
+
+const TITLE_MOMENTS = ['du matin', 'du midi', "de l'après-midi", 'du soir', 'de nuit'];
+
+// Title such as "Course du matin", from the type and the local start hour
+export function defaultActivityTitle(activityType: string, startTime: Date, timezone = 'UTC'): string {
+  const hour = Number(
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(startTime)
+  );
+  const moment =
+    hour >= 5 && hour < 12
+      ? 'du matin'
+      : hour >= 12 && hour < 14
+        ? 'du midi'
+        : hour >= 14 && hour < 18
+          ? "de l'après-midi"
+          : hour >= 18 && hour < 22
+            ? 'du soir'
+            : 'de nuit';
+  return `${titleNoun(activityType)} ${moment}`;
+}
+
+// Default title for a new type when `title` is still the default one of the
+// old type, null when the user wrote their own. The moment of the day is kept
+// since the timezone the title was made in is not stored.
+export function retypedDefaultTitle(title: string, fromType: string, toType: string): string | null {
+  const prefix = `${titleNoun(fromType)} `;
+  if (!title.startsWith(prefix) || !TITLE_MOMENTS.includes(title.substring(prefix.length))) {
+    return null;
+  }
+  return `${titleNoun(toType)} ${title.substring(prefix.length)}`;
+}
+
+function normalizePoints(points: GPSPoint[]): GPSPoint[] {
+  const normalized = points.map((point) => ({
+    latitude: point.latitude,
+    longitude: point.longitude,
+    altitude: point.altitude ?? null,
+    accuracy: point.accuracy ?? null,
+    speed: point.speed ?? null,
+    timestamp: new Date(point.timestamp),
+  }));
+
+  if (normalized.some((point) => isNaN(point.timestamp.getTime()))) {
+    throw new ActivityRejectedError('GPS points must have valid timestamps');
+  }
+
+  return normalized.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Activity list entries without the raw GPS points
+export type ActivitySummary = Omit<Activity, 'gps_points'>;
+
+// Activities shown in lists and counted in stats: not in the trash and not
+// replaced by the result of a split or merge
+export function visibleActivities(userId: string): Filter<Activity> {
+  return { user_id: userId, deleted_at: { $exists: false }, replaced_by: { $exists: false } };
+}
+
+// Fields never sent to clients
+export const DETAIL_PROJECTION = { original_track: 0 } as const;
+
+// Fields left out of list responses unless the points are requested
+export const SUMMARY_PROJECTION = { gps_points: 0, ...DETAIL_PROJECTION } as const;
+
+// Everything stored on an activity that is derived from its GPS points
+export function trackFields(points: GPSPoint[]) {
+  return { ...computeActivityMetrics(points), summary_polyline: summaryPolyline(points) };
+}
+
+// Fill in the polyline of activities saved before it was stored, keeping it for next time
+export async function withSummaryPolylines(
+  collections: Collections,
+  activities: ActivitySummary[]
+): Promise<ActivitySummary[]> {
+  const missing = activities.filter((activity) => activity.summary_polyline === undefined);
+  if (missing.length === 0) {
+    return activities;
+  }
+
+  const tracks = await collections.activities
+    .find({ id: { $in: missing.map((activity) => activity.id) } })
+    .project<Pick<Activity, 'id' | 'gps_points'>>({ id: 1, gps_points: 1 })
+    .toArray();
+  const polylines = new Map(tracks.map((track) => [track.id, summaryPolyline(track.gps_points)]));
+
+  await Promise.all(
+    [...polylines].map(([id, polyline]) =>
+      collections.activities.updateOne({ id }, { $set: { summary_polyline: polyline } })
+    )
+  );
+  return activities.map((activity) =>
+    activity.summary_polyline === undefined
+      ? { ...activity, summary_polyline: polylines.get(activity.id) || '' }
+      : activity
+  );
+}
+
+// Detect the stops of an activity saved before they were, keeping them and the
+// moving-time average speed for next time
+export async function withStops<T extends Activity>(collections: Collections, activity: T): Promise<T> {
+  if (activity.stops !== undefined || activity.gps_points.length < 2) {
+    return activity;
+  }
+
+  const timing = computeTiming(activity.gps_points, activity.distance);
+  await collections.activities.updateOne({ id: activity.id }, { $set: timing });
+  return { ...activity, ...timing };
+}
+
+// Detect the stops of every activity saved before they were, so that their
+// moving time and average speed are comparable with newer ones in stats and
+// speed sorting. Returns the number of activities updated.
+export async function backfillStops(collections: Collections): Promise<number> {
+  const activities = collections.activities
+    .find({ stops: { $exists: false } })
+    .project<Pick<Activity, 'id' | 'gps_points' | 'distance'>>({ id: 1, gps_points: 1, distance: 1 });
+
+  let updated = 0;
+  for await (const activity of activities) {
+    if (activity.gps_points.length < 2) continue;
+    await collections.activities.updateOne(
+      { id: activity.id },
+      { $set: computeTiming(activity.gps_points, activity.distance) }
+    );
+    updated++;
+  }
+  return updated;
+}
+
+// Persist a new activity for a user. Every way of adding an activity
+// (recorded in the app or imported from a file) goes through here, and
+// the stored metrics and best efforts are always computed from the GPS points.
+export async function createActivity(
+  collections: Collections,
+  userId: string,
+  data: NewActivity,
+  source: ActivitySource = 'app'
+): Promise<CreatedActivity> {
+  const points = normalizePoints(data.gps_points);
+  if (points.length < 2) {
+    throw new ActivityRejectedError('Activity must contain at least 2 GPS points');
+  }
+
+  const track = trackFields(points);
+  const implausibility = findImplausibility(points, data.activity_type, track);
+  if (implausibility) {
+    throw new ActivityRejectedError(`Implausible track: ${implausibility}`);
+  }
+
+  const activityDoc: Activity = {
+    id: uuidv4(),
+    user_id: userId,
+    activity_type: data.activity_type,
+    title: data.title || defaultActivityTitle(data.activity_type, track.start_time, data.timezone),
+    description: data.description ?? null,
+    perceived_exertion: null,
+    tags: [],
+    gps_points: points,
+    ...track,
+    ...(data.laps && data.laps.length > 0 ? { laps: data.laps } : {}),
+    ...(data.client_metrics ? { client_metrics: data.client_metrics } : {}),
+    source,
+    created_at: new Date(),
+  };
+
+  await collections.activities.insertOne(activityDoc as any);
+  const newRecords = await saveBestEfforts(collections, activityDoc);
+  return { ...activityDoc, new_records: newRecords };
+}
+
+// Edit the metadata of an activity. A new type is checked against the track
+// like on creation, and the best efforts are recomputed for it since the
+// tracked distances depend on the type.
+export async function updateActivity(
+  collections: Collections,
+  userId: string,
+  activityId: string,
+  update: ActivityUpdate
+): Promise<Activity> {
+  const activity = await collections.activities.findOne({ ...visibleActivities(userId), id: activityId });
+  if (!activity) {
+    throw new ActivityNotFoundError();
+  }
+
+  const typeChanged = update.activity_type !== undefined && update.activity_type !== activity.activity_type;
+  if (typeChanged) {
+    const metrics = computeActivityMetrics(activity.gps_points);
+    const implausibility = findImplausibility(activity.gps_points, update.activity_type!, metrics);
+    if (implausibility) {
+      throw new ActivityRejectedError(`Implausible track: ${implausibility}`);
+    }
+  }
+
+  const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+  // A title generated for the old type follows the new one, unless a title is set too
+  if (typeChanged && update.title === undefined && activity.title) {
+    const title = retypedDefaultTitle(activity.title, activity.activity_type, update.activity_type!);
+    if (title) {
+      changes.title = title;
+    }
+  }
+  const updated = await collections.activities.findOneAndUpdate(
+    { id: activityId, user_id: userId },
+    { $set: { ...changes, updated_at: new Date() } },
+    { returnDocument: 'after', projection: DETAIL_PROJECTION }
+  );
+  if (!updated) {
+    throw new ActivityNotFoundError();
+  }
+
+  if (typeChanged) {
+    await replaceBestEfforts(collections, updated);
+  }
+  return updated;
+}
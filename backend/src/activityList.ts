@@ -0,0 +1,153 @@
+import { Filter } from 'mongodb';
+import { Collections } from './database';
+import {
+  ActivitySummary,
+  DETAIL_PROJECTION,
+  SUMMARY_PROJECTION,
+  visibleActivities,
+  withSummaryPolylines,
+} from './activities';
+import { Activity } from './types';
+
+export const ACTIVITY_SORT_FIELDS = {
+  date: 'start_time',
+  distance: 'distance',
+  duration: 'duration',
+  speed: 'avg_speed',
+} as const;
+
+export type ActivitySort = keyof typeof ACTIVITY_SORT_FIELDS;
+export type SortOrder = 'asc' | 'desc';
+
+export interface ActivityListOptions {
+  limit: number;
+  skip: number;
+  cursor?: string;
+  sort: ActivitySort;
+  order: SortOrder;
+  include?: 'points';
+  activity_type?: string;
+  from?: Date;
+  to?: Date;
+  min_distance?: number;
+  max_distance?: number;
+  min_duration?: number;
+  max_duration?: number;
+}
+
+export interface ActivityPage {
+  activities: (Activity | ActivitySummary)[];
+  // Null on the last page
+  next_cursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Position after the last activity of a page: its sort value and id, which
+// breaks ties. Pages stay stable when activities are added in between.
+interface CursorPosition {
+  sort: ActivitySort;
+  order: SortOrder;
+  value: number | string;
+  id: string;
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: ActivitySort, order: SortOrder): CursorPosition {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  // A cursor only makes sense with the ordering it was created for
+  if (
+    !position ||
+    position.sort !== sort ||
+    position.order !== order ||
+    typeof position.id !== 'string' ||
+    (typeof position.value !== 'number' && typeof position.value !== 'string')
+  ) {
+    throw new InvalidCursorError();
+  }
+  return position;
+}
+
+function buildFilter(userId: string, options: ActivityListOptions): Filter<Activity> {
+  const filter = visibleActivities(userId);
+
+  if (options.activity_type) {
+    filter.activity_type = options.activity_type;
+  }
+  if (options.from || options.to) {
+    filter.start_time = {
+      ...(options.from ? { $gte: options.from } : {}),
+      ...(options.to ? { $lt: options.to } : {}),
+    };
+  }
+  if (options.min_distance !== undefined || options.max_distance !== undefined) {
+    filter.distance = {
+      ...(options.min_distance !== undefined ? { $gte: options.min_distance } : {}),
+      ...(options.max_distance !== undefined ? { $lte: options.max_distance } : {}),
+    };
+  }
+  if (options.min_duration !== undefined || options.max_duration !== undefined) {
+    filter.duration = {
+      ...(options.min_duration !== undefined ? { $gte: options.min_duration } : {}),
+      ...(options.max_duration !== undefined ? { $lte: options.max_duration } : {}),
+    };
+  }
+
+  return filter;
+}
+
+export async function listActivities(
+  collections: Collections,
+  userId: string,
+  options: ActivityListOptions
+): Promise<ActivityPage> {
+  const field = ACTIVITY_SORT_FIELDS[options.sort];
+  const direction = options.order === 'asc' ? 1 : -1;
+  const filter = buildFilter(userId, options);
+
+  if (options.cursor) {
+    const position = decodeCursor(options.cursor, options.sort, options.order);
+    const value = field === 'start_time' ? new Date(position.value) : position.value;
+    const beyond = direction === 1 ? '$gt' : '$lt';
+    filter.$or = [{ [field]: { [beyond]: value } }, { [field]: value, id: { [beyond]: position.id } }];
+  }
+
+  // One extra activity tells whether there is a next page
+  const cursor = collections.activities
+    .find(filter)
+    .sort({ [field]: direction, id: direction })
+    .skip(options.cursor ? 0 : options.skip)
+    .limit(options.limit + 1);
+
+  const results =
+    options.include === 'points'
+      ? await cursor.project<Activity>(DETAIL_PROJECTION).toArray()
+      : await withSummaryPolylines(collections, await cursor.project<ActivitySummary>(SUMMARY_PROJECTION).toArray());
+
+  const activities = results.slice(0, options.limit);
+  const last = activities[activities.length - 1];
+  const nextCursor =
+    results.length > options.limit && last
+      ? encodeCursor({
+          sort: options.sort,
+          order: options.order,
+          value: last[field] instanceof Date ? last[field].toISOString() : (last[field] as number),
+          id: last.id,
+        })
+      : null;
+
+  return { activities, next_cursor: nextCursor };
+}
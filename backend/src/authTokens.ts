@@ -0,0 +1,50 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from './database';
+import { hashToken } from './tokens';
+import { AuthToken, AuthTokenPurpose } from './types';
+
+// Single-use tokens sent by email. Only their hash is stored, and issuing a
+// new token for a purpose invalidates the previous ones for that user.
+export async function createAuthToken(
+  collections: Collections,
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlMinutes: number,
+  email?: string
+): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await collections.authTokens.updateMany(
+    { user_id: userId, purpose, used_at: null },
+    { $set: { used_at: now } }
+  );
+
+  const tokenDoc: AuthToken = {
+    id: uuidv4(),
+    user_id: userId,
+    purpose,
+    ...(email ? { email } : {}),
+    token_hash: hashToken(token),
+    created_at: now,
+    expires_at: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+    used_at: null,
+  };
+
+  await collections.authTokens.insertOne(tokenDoc as any);
+  return token;
+}
+
+// Mark a token as used and return it, or null if it is unknown, expired or already used
+export async function consumeAuthToken(
+  collections: Collections,
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<AuthToken | null> {
+  const now = new Date();
+  return collections.authTokens.findOneAndUpdate(
+    { token_hash: hashToken(token), purpose, used_at: null, expires_at: { $gt: now } },
+    { $set: { used_at: now } }
+  );
+}
@@ -0,0 +1,168 @@
+import { Collections } from './database';
+import { ActivityNotFoundError, DETAIL_PROJECTION, trackFields, visibleActivities } from './activities';
+import { pointDistance } from './metrics';
+import { replaceBestEfforts } from './records';
+import { Activity, ActivityLap, GPSPoint } from './types';
+
+// Bounds of a crop, each given as a point index or a timestamp
+export interface CropRange {
+  start_index?: number;
+  end_index?: number;
+  start_time?: Date;
+  end_time?: Date;
+}
+
+export class CropError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CropError';
+  }
+}
+
+function timeOf(point: GPSPoint): number {
+  return new Date(point.timestamp).getTime();
+}
+
+// First and last kept indices, inclusive. Timestamps keep the points
+// recorded inside [start_time, end_time].
+export function resolveCropRange(points: GPSPoint[], range: CropRange): [number, number] {
+  let start = 0;
+  let end = points.length - 1;
+
+  if (range.start_index !== undefined) {
+    start = range.start_index;
+  } else if (range.start_time) {
+    const startMs = range.start_time.getTime();
+    start = points.findIndex((point) => timeOf(point) >= startMs);
+    if (start === -1) start = points.length;
+  }
+  if (range.end_index !== undefined) {
+    end = range.end_index;
+  } else if (range.end_time) {
+    const endMs = range.end_time.getTime();
+    end = points.length - 1;
+    while (end >= 0 && timeOf(points[end]) > endMs) end--;
+  }
+
+  if (end > points.length - 1) {
+    throw new CropError(`end_index must be at most ${points.length - 1}`);
+  }
+  if (end - start < 1) {
+    throw new CropError('Crop must keep at least 2 GPS points');
+  }
+  return [start, end];
+}
+
+// Device laps cut to a part of the track, with their distance and duration measured again
+export function lapsWithin(laps: ActivityLap[], points: GPSPoint[]): ActivityLap[] {
+  const startMs = timeOf(points[0]);
+  const endMs = timeOf(points[points.length - 1]);
+
+  return laps
+    .filter((lap) => new Date(lap.end_time).getTime() > startMs && new Date(lap.start_time).getTime() < endMs)
+    .map((lap) => {
+      const lapStart = Math.max(new Date(lap.start_time).getTime(), startMs);
+      const lapEnd = Math.min(new Date(lap.end_time).getTime(), endMs);
+      let distance = 0;
+      for (let i = 1; i < points.length; i++) {
+        if (timeOf(points[i - 1]) >= lapStart && timeOf(points[i]) <= lapEnd) {
+          distance += pointDistance(points[i - 1], points[i]);
+        }
+      }
+      const duration = Math.round((lapEnd - lapStart) / 1000);
+      return {
+        start_time: new Date(lapStart),
+        end_time: new Date(lapEnd),
+        distance: Math.round(distance),
+        duration,
+        avg_speed: duration > 0 ? Math.round((distance / 1000 / (duration / 3600)) * 100) / 100 : 0,
+      };
+    });
+}
+
+async function findActivity(collections: Collections, userId: string, activityId: string): Promise<Activity> {
+  const activity = await collections.activities.findOne({ ...visibleActivities(userId), id: activityId });
+  if (!activity) {
+    throw new ActivityNotFoundError();
+  }
+  return activity;
+}
+
+// Save a new track for the activity and recompute everything derived from it
+async function replaceTrack(
+  collections: Collections,
+  activity: Activity,
+  points: GPSPoint[],
+  laps: ActivityLap[] | undefined,
+  cropped: boolean
+): Promise<Activity> {
+  const fields = {
+    gps_points: points,
+    ...trackFields(points),
+    ...(laps && laps.length > 0 ? { laps } : {}),
+    updated_at: new Date(),
+  };
+  const unset = {
+    ...(laps && laps.length > 0 ? {} : { laps: '' as const }),
+    ...(cropped ? {} : { cropped_at: '' as const, original_track: '' as const }),
+  };
+
+  const updated = await collections.activities.findOneAndUpdate(
+    { id: activity.id, user_id: activity.user_id },
+    {
+      $set: cropped
+        ? {
+            ...fields,
+            cropped_at: new Date(),
+            // Only the first crop saves the track, so undo always goes back to the recording
+            original_track: activity.original_track || {
+              gps_points: activity.gps_points,
+              ...(activity.laps ? { laps: activity.laps } : {}),
+            },
+          }
+        : fields,
+      ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+    },
+    { returnDocument: 'after', projection: DETAIL_PROJECTION }
+  );
+  if (!updated) {
+    throw new ActivityNotFoundError();
+  }
+
+  await replaceBestEfforts(collections, updated);
+  return updated;
+}
+
+// Keep only part of the track, e.g. to drop the drive home recorded after a run
+export async function cropActivity(
+  collections: Collections,
+  userId: string,
+  activityId: string,
+  range: CropRange
+): Promise<Activity> {
+  const activity = await findActivity(collections, userId, activityId);
+  const [start, end] = resolveCropRange(activity.gps_points, range);
+  if (start === 0 && end === activity.gps_points.length - 1) {
+    throw new CropError('Crop range covers the whole activity');
+  }
+
+  const points = activity.gps_points.slice(start, end + 1);
+  const laps = activity.laps ? lapsWithin(activity.laps, points) : undefined;
+  return replaceTrack(collections, activity, points, laps, true);
+}
+
+// Restore the track as it was before the first crop
+export async function undoCrop(collections: Collections, userId: string, activityId: string): Promise<Activity> {
+  const activity = await findActivity(collections, userId, activityId);
+  if (!activity.original_track) {
+    throw new CropError('Activity is not cropped');
+  }
+
+  return replaceTrack(
+    collections,
+    activity,
+    activity.original_track.gps_points,
+    activity.original_track.laps,
+    false
+  );
+}
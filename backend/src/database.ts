@@ -1,5 +1,5 @@
 import { MongoClient, Db, Collection } from 'mongodb';
-import { User, Activity } from './types';
+import { User, Activity, BestEffort, Session, RefreshToken, AuthToken, RateLimitEntry } from './types';
 
 let client: MongoClient;
 let db: Db;
@@ -7,6 +7,11 @@ let db: Db;
 export interface Collections {
   users: Collection<User>;
   activities: Collection<Activity>;
+  bestEfforts: Collection<BestEffort>;
+  sessions: Collection<Session>;
+  refreshTokens: Collection<RefreshToken>;
+  authTokens: Collection<AuthToken>;
+  rateLimits: Collection<RateLimitEntry>;
 }
 
 export async function connectToDatabase(): Promise<Collections> {
@@ -23,6 +28,11 @@ export async function connectToDatabase(): Promise<Collections> {
   return {
     users: db.collection<User>('users'),
     activities: db.collection<Activity>('activities'),
+    bestEfforts: db.collection<BestEffort>('best_efforts'),
+    sessions: db.collection<Session>('sessions'),
+    refreshTokens: db.collection<RefreshToken>('refresh_tokens'),
+    authTokens: db.collection<AuthToken>('auth_tokens'),
+    rateLimits: db.collection<RateLimitEntry>('rate_limits'),
   };
 }
 
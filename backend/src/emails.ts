@@ -0,0 +1,33 @@
+import { appLink, MailMessage } from './mail';
+
+export function passwordResetEmail(to: string, name: string, token: string, expireMinutes: number): MailMessage {
+  return {
+    to,
+    subject: 'Réinitialisation de votre mot de passe Strive',
+    text: [
+      `Bonjour ${name},`,
+      '',
+      'Pour choisir un nouveau mot de passe, ouvrez ce lien :',
+      appLink('reset-password', { token }),
+      '',
+      `Ou saisissez ce code dans l'application : ${token}`,
+      '',
+      `Ce lien expire dans ${expireMinutes} minutes. Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.`,
+    ].join('\n'),
+  };
+}
+
+export function emailVerificationEmail(to: string, name: string, token: string, expireHours: number): MailMessage {
+  return {
+    to,
+    subject: 'Confirmez votre adresse email Strive',
+    text: [
+      `Bonjour ${name},`,
+      '',
+      'Pour confirmer votre adresse email, ouvrez ce lien :',
+      appLink('verify-email', { token }),
+      '',
+      `Ce lien expire dans ${expireHours} heures. Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.`,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,388 @@
+// Decoder for Garmin FIT activity files.
+// Only the messages needed to rebuild an activity are interpreted
+// (file_id, session, lap, record); everything else is read and skipped.
+// Protocol reference: https://developer.garmin.com/fit/protocol/
+
+export interface FitRecord {
+  timestamp: Date;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null; // meters
+  speed: number | null; // m/s
+  distance: number | null; // meters
+}
+
+export interface FitLap {
+  start_time: Date | null;
+  timestamp: Date | null;
+  total_elapsed_time: number | null; // seconds
+  total_timer_time: number | null; // seconds
+  total_distance: number | null; // meters
+  avg_speed: number | null; // m/s
+  max_speed: number | null; // m/s
+  total_ascent: number | null; // meters
+  total_descent: number | null; // meters
+}
+
+export interface FitActivity {
+  sport: string | null;
+  records: FitRecord[];
+  laps: FitLap[];
+}
+
+export class FitDecodeError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'FitDecodeError';
+    this.offset = offset;
+  }
+}
+
+type FitValue = number | string | null;
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+interface FitMessage {
+  globalNumber: number;
+  fields: Map<number, FitValue>;
+}
+
+// Global message numbers
+const MESG_FILE_ID = 0;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_SESSION = 18;
+const MESG_SPORT = 12;
+
+const FIELD_TIMESTAMP = 253;
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  11: 'walking',
+  17: 'hiking',
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+export function fitCrc(data: Uint8Array, start = 0, end = data.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = data[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+// Quick signature check, used to tell FIT uploads apart from XML ones
+export function isFitFile(buffer: Buffer): boolean {
+  return buffer.length >= 12 && buffer.toString('ascii', 8, 12) === '.FIT';
+}
+
+function readBaseValue(buffer: Buffer, offset: number, baseType: number, littleEndian: boolean): FitValue {
+  switch (baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0d: { // byte
+      const value = buffer.readUInt8(offset);
+      return value === 0xff ? null : value;
+    }
+    case 0x0a: { // uint8z
+      const value = buffer.readUInt8(offset);
+      return value === 0 ? null : value;
+    }
+    case 0x01: { // sint8
+      const value = buffer.readInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 0x03: { // sint16
+      const value = littleEndian ? buffer.readInt16LE(offset) : buffer.readInt16BE(offset);
+      return value === 0x7fff ? null : value;
+    }
+    case 0x04: { // uint16
+      const value = littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+      return value === 0xffff ? null : value;
+    }
+    case 0x0b: { // uint16z
+      const value = littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+      return value === 0 ? null : value;
+    }
+    case 0x05: { // sint32
+      const value = littleEndian ? buffer.readInt32LE(offset) : buffer.readInt32BE(offset);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 0x06: { // uint32
+      const value = littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+      return value === 0xffffffff ? null : value;
+    }
+    case 0x0c: { // uint32z
+      const value = littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+      return value === 0 ? null : value;
+    }
+    case 0x08: { // float32
+      const value = littleEndian ? buffer.readFloatLE(offset) : buffer.readFloatBE(offset);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 0x09: { // float64
+      const value = littleEndian ? buffer.readDoubleLE(offset) : buffer.readDoubleBE(offset);
+      return Number.isFinite(value) ? value : null;
+    }
+    default:
+      // 64-bit types are not used by any field we interpret
+      return null;
+  }
+}
+
+const BASE_TYPE_SIZES: Record<number, number> = {
+  0x00: 1, 0x01: 1, 0x02: 1, 0x03: 2, 0x04: 2, 0x05: 4, 0x06: 4, 0x07: 1,
+  0x08: 4, 0x09: 8, 0x0a: 1, 0x0b: 2, 0x0c: 4, 0x0d: 1, 0x0e: 8, 0x0f: 8, 0x10: 8,
+};
+
+function readField(buffer: Buffer, offset: number, field: FieldDefinition, littleEndian: boolean): FitValue {
+  const baseType = field.baseType & 0x1f;
+
+  if (baseType === 0x07) {
+    const raw = buffer.toString('utf8', offset, offset + field.size);
+    const end = raw.indexOf('\0');
+    return end === -1 ? raw : raw.substring(0, end);
+  }
+
+  // Array fields: only the first element is relevant for the messages we use
+  const size = BASE_TYPE_SIZES[baseType];
+  if (!size || field.size < size) {
+    return null;
+  }
+  return readBaseValue(buffer, offset, baseType, littleEndian);
+}
+
+// Walk the file and return every data message with its raw field values
+function readMessages(buffer: Buffer): FitMessage[] {
+  if (buffer.length < 12) {
+    throw new FitDecodeError('File too short', 0);
+  }
+
+  const headerSize = buffer.readUInt8(0);
+  if (headerSize !== 12 && headerSize !== 14) {
+    throw new FitDecodeError(`Unsupported header size ${headerSize}`, 0);
+  }
+  if (!isFitFile(buffer)) {
+    throw new FitDecodeError('Missing .FIT signature', 8);
+  }
+
+  const dataSize = buffer.readUInt32LE(4);
+  const dataEnd = headerSize + dataSize;
+  if (buffer.length < dataEnd + 2) {
+    throw new FitDecodeError('File is truncated', buffer.length);
+  }
+
+  const expectedCrc = buffer.readUInt16LE(dataEnd);
+  if (expectedCrc !== 0 && fitCrc(buffer, 0, dataEnd) !== expectedCrc) {
+    throw new FitDecodeError('CRC mismatch', dataEnd);
+  }
+
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: FitMessage[] = [];
+  let lastTimestamp: number | null = null;
+  let offset = headerSize;
+
+  while (offset < dataEnd) {
+    const recordOffset = offset;
+    const header = buffer.readUInt8(offset++);
+
+    // Compressed timestamp header
+    if (header & 0x80) {
+      const localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new FitDecodeError(`Data for undefined local message ${localType}`, recordOffset);
+      }
+      if (lastTimestamp === null) {
+        throw new FitDecodeError('Compressed timestamp without a reference timestamp', recordOffset);
+      }
+
+      let timestamp: number = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) {
+        timestamp += 0x20;
+      }
+      lastTimestamp = timestamp;
+
+      const message = readDataMessage(buffer, offset, definition);
+      message.fields.set(FIELD_TIMESTAMP, timestamp);
+      messages.push(message);
+      offset += messageSize(definition);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+
+    if (header & 0x40) {
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = buffer.readUInt8(offset + 1) === 0;
+      const globalNumber = littleEndian ? buffer.readUInt16LE(offset + 2) : buffer.readUInt16BE(offset + 2);
+      const fieldCount = buffer.readUInt8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: buffer.readUInt8(offset),
+          size: buffer.readUInt8(offset + 1),
+          baseType: buffer.readUInt8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = buffer.readUInt8(offset++);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += buffer.readUInt8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+    } else {
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new FitDecodeError(`Data for undefined local message ${localType}`, recordOffset);
+      }
+
+      const message = readDataMessage(buffer, offset, definition);
+      const timestamp = message.fields.get(FIELD_TIMESTAMP);
+      if (typeof timestamp === 'number') {
+        lastTimestamp = timestamp;
+      }
+      messages.push(message);
+      offset += messageSize(definition);
+    }
+
+    if (offset > dataEnd) {
+      throw new FitDecodeError('Message runs past the end of the data', recordOffset);
+    }
+  }
+
+  return messages;
+}
+
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, field) => sum + field.size, 0) + definition.developerDataSize;
+}
+
+function readDataMessage(buffer: Buffer, offset: number, definition: MessageDefinition): FitMessage {
+  if (offset + messageSize(definition) > buffer.length) {
+    throw new FitDecodeError('Message runs past the end of the file', offset);
+  }
+
+  const fields = new Map<number, FitValue>();
+  let position = offset;
+  for (const field of definition.fields) {
+    fields.set(field.number, readField(buffer, position, field, definition.littleEndian));
+    position += field.size;
+  }
+  return { globalNumber: definition.globalNumber, fields };
+}
+
+function numberField(message: FitMessage, field: number, scale = 1, offset = 0): number | null {
+  const value = message.fields.get(field);
+  return typeof value === 'number' ? value / scale - offset : null;
+}
+
+function dateField(message: FitMessage, field: number): Date | null {
+  const value = message.fields.get(field);
+  return typeof value === 'number' ? new Date((value + FIT_EPOCH_OFFSET) * 1000) : null;
+}
+
+function semicircles(message: FitMessage, field: number): number | null {
+  const value = message.fields.get(field);
+  return typeof value === 'number' ? value * SEMICIRCLES_TO_DEGREES : null;
+}
+
+// Decode a FIT activity file into track records and laps
+export function decodeFit(buffer: Buffer): FitActivity {
+  let messages: FitMessage[];
+  try {
+    messages = readMessages(buffer);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new FitDecodeError('Unexpected end of file', buffer.length);
+    }
+    throw error;
+  }
+  const activity: FitActivity = { sport: null, records: [], laps: [] };
+
+  for (const message of messages) {
+    switch (message.globalNumber) {
+      case MESG_FILE_ID: {
+        const type = message.fields.get(0);
+        if (typeof type === 'number' && type !== 4) {
+          throw new FitDecodeError('Not an activity file', 0);
+        }
+        break;
+      }
+      case MESG_RECORD: {
+        const timestamp = dateField(message, FIELD_TIMESTAMP);
+        if (!timestamp) break;
+        activity.records.push({
+          timestamp,
+          latitude: semicircles(message, 0),
+          longitude: semicircles(message, 1),
+          // enhanced_altitude / enhanced_speed supersede the 16-bit fields when present
+          altitude: numberField(message, 78, 5, 500) ?? numberField(message, 2, 5, 500),
+          speed: numberField(message, 73, 1000) ?? numberField(message, 6, 1000),
+          distance: numberField(message, 5, 100),
+        });
+        break;
+      }
+      case MESG_LAP:
+        activity.laps.push({
+          start_time: dateField(message, 2),
+          timestamp: dateField(message, FIELD_TIMESTAMP),
+          total_elapsed_time: numberField(message, 7, 1000),
+          total_timer_time: numberField(message, 8, 1000),
+          total_distance: numberField(message, 9, 100),
+          avg_speed: numberField(message, 110, 1000) ?? numberField(message, 13, 1000),
+          max_speed: numberField(message, 111, 1000) ?? numberField(message, 14, 1000),
+          total_ascent: numberField(message, 21),
+          total_descent: numberField(message, 22),
+        });
+        break;
+      case MESG_SESSION:
+      case MESG_SPORT: {
+        const sport = message.fields.get(message.globalNumber === MESG_SESSION ? 5 : 0);
+        if (activity.sport === null && typeof sport === 'number') {
+          activity.sport = SPORTS[sport] ?? null;
+        }
+        break;
+      }
+    }
+  }
+
+  return activity;
+}
@@ -0,0 +1,58 @@
+import { Activity } from './types';
+
+const GPX_CREATOR = 'Strive';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toIsoString(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+// Serialize an activity track as a GPX 1.1 document
+export function activityToGpx(activity: Activity): string {
+  const startTime = toIsoString(activity.start_time);
+  const name = activity.title || `${activity.activity_type} ${startTime}`;
+
+  const trackPoints = activity.gps_points.map((point) => {
+    const lines = [`      <trkpt lat="${point.latitude}" lon="${point.longitude}">`];
+    if (point.altitude !== null && point.altitude !== undefined) {
+      lines.push(`        <ele>${point.altitude}</ele>`);
+    }
+    lines.push(`        <time>${toIsoString(point.timestamp)}</time>`);
+    lines.push('      </trkpt>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${startTime}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...(activity.description ? [`    <desc>${escapeXml(activity.description)}</desc>`] : []),
+    `    <type>${escapeXml(activity.activity_type)}</type>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// File name used in the Content-Disposition header of an export
+export function gpxFileName(activity: Activity): string {
+  const date = toIsoString(activity.start_time).slice(0, 10);
+  const type = activity.activity_type.replace(/[^a-z0-9-]/gi, '-');
+  return `strive-${type}-${date}.gpx`;
+}
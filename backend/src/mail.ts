@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// RFC 2047 encoding for header values that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// Writes each message as an .eml file instead of sending it. This is the
+// default so that mail flows can be exercised without an SMTP server.
+export class OutboxTransport implements MailTransport {
+  constructor(
+    private directory: string,
+    private from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      message.text.replace(/\r?\n/g, '\r\n'),
+      '',
+    ].join('\r\n');
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${date.toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), content, 'utf8');
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || 'Strive <no-reply@strive.app>';
+  const directory = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox');
+  return new OutboxTransport(directory, from);
+}
+
+// Link opening a screen of the app, e.g. strive://reset-password?token=...
+export function appLink(route: string, params: Record<string, string>): string {
+  const base = process.env.APP_URL || 'strive://';
+  const separator = base.endsWith('/') ? '' : '/';
+  return `${base}${separator}${route}?${new URLSearchParams(params).toString()}`;
+}
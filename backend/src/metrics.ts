@@ -0,0 +1,246 @@
+import { ActivityStop, GPSPoint } from './types';
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+// Below this speed (m/s) a segment counts as stationary
+const MOVING_SPEED_THRESHOLD = 0.5;
+
+// A stop is a period of at least MIN_STOP_SECONDS during which the track stays
+// within STOP_RADIUS_METERS of where it stopped, without getting further from
+// there than MOVING_SPEED_THRESHOLD allows; shorter waits are just slowing down
+const MIN_STOP_SECONDS = 15;
+const STOP_RADIUS_METERS = 15;
+
+// Speeds above these (km/h) are not humanly possible for the activity type
+const MAX_AVG_SPEED: Record<string, number> = {
+  running: 30,
+  walking: 12,
+  hiking: 15,
+  cycling: 80,
+};
+const DEFAULT_MAX_AVG_SPEED = 80;
+
+// Faster than this (km/h) between two consecutive points means a GPS jump or a vehicle
+const MAX_SEGMENT_SPEED = 250;
+const MAX_SEGMENT_SPEED_RATIO = 0.05;
+
+// Altitude changes smaller than this (m) are GPS noise, not climbing
+const ELEVATION_HYSTERESIS = 3;
+// Altitudes are averaged over this many seconds on each side of a point
+const ELEVATION_SMOOTHING_SECONDS = 15;
+
+const MAX_DISTANCE = 1000 * 1000;
+const MAX_DURATION = 7 * 24 * 3600;
+
+// All null when the track has no altitude data
+export interface ElevationMetrics {
+  elevation_gain: number | null;
+  elevation_loss: number | null;
+  min_altitude: number | null;
+  max_altitude: number | null;
+}
+
+// Elapsed and moving time (s), and the average speed (km/h) over the moving time
+export interface TimingMetrics {
+  elapsed_time: number;
+  moving_time: number;
+  avg_speed: number;
+  stops: ActivityStop[];
+}
+
+export interface ActivityMetrics extends ElevationMetrics, TimingMetrics {
+  distance: number;
+  duration: number;
+  start_time: Date;
+  end_time: Date;
+}
+
+// Great-circle distance in meters between two coordinates
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = (lat1 * Math.PI) / 180;
+  const phi2 = (lat2 * Math.PI) / 180;
+  const deltaPhi = ((lat2 - lat1) * Math.PI) / 180;
+  const deltaLambda = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+export function pointDistance(a: GPSPoint, b: GPSPoint): number {
+  return haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+export function totalDistance(points: GPSPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += pointDistance(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Ascent, descent and altitude range (m). Altitudes are smoothed with a moving
+// average over time, then only changes of at least ELEVATION_HYSTERESIS from the last
+// turning point are counted, so that GPS jitter on flat ground adds nothing.
+export function computeElevation(points: GPSPoint[]): ElevationMetrics {
+  const samples = points
+    .filter((point) => point.altitude !== null && Number.isFinite(point.altitude))
+    .map((point) => ({ altitude: point.altitude as number, time: new Date(point.timestamp).getTime() }));
+  if (samples.length < 2) {
+    return { elevation_gain: null, elevation_loss: null, min_altitude: null, max_altitude: null };
+  }
+
+  // Sliding window sum over [time - radius, time + radius]
+  const radiusMs = ELEVATION_SMOOTHING_SECONDS * 1000;
+  const smoothed: number[] = [];
+  let first = 0;
+  let last = -1;
+  let sum = 0;
+  for (const sample of samples) {
+    while (last + 1 < samples.length && samples[last + 1].time <= sample.time + radiusMs) {
+      sum += samples[++last].altitude;
+    }
+    while (samples[first].time < sample.time - radiusMs) {
+      sum -= samples[first++].altitude;
+    }
+    smoothed.push(sum / (last - first + 1));
+  }
+
+  let gain = 0;
+  let loss = 0;
+  let reference = smoothed[0];
+  for (const altitude of smoothed) {
+    if (altitude - reference >= ELEVATION_HYSTERESIS) {
+      gain += altitude - reference;
+      reference = altitude;
+    } else if (reference - altitude >= ELEVATION_HYSTERESIS) {
+      loss += reference - altitude;
+      reference = altitude;
+    }
+  }
+
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  return {
+    elevation_gain: round1(gain),
+    elevation_loss: round1(loss),
+    min_altitude: round1(smoothed.reduce((min, altitude) => Math.min(min, altitude))),
+    max_altitude: round1(smoothed.reduce((max, altitude) => Math.max(max, altitude))),
+  };
+}
+
+function timeOf(point: GPSPoint): number {
+  return new Date(point.timestamp).getTime();
+}
+
+// Stationary periods of a time-ordered track. From each point, the track is
+// followed while it stays within STOP_RADIUS_METERS and the speed reported by
+// the device, when there is one, stays below MOVING_SPEED_THRESHOLD. The
+// stretch is a stop if it lasts MIN_STOP_SECONDS and its furthest point is
+// closer than MOVING_SPEED_THRESHOLD would take over that time, so that a slow
+// walk is not mistaken for a stop on tracks without device speed. Gaps in the
+// recording are covered too, since apps often stop logging when still.
+export function detectStops(points: GPSPoint[]): ActivityStop[] {
+  const stops: ActivityStop[] = [];
+  let i = 0;
+  while (i < points.length - 1) {
+    let j = i;
+    let furthest = 0;
+    while (j + 1 < points.length) {
+      const distance = pointDistance(points[i], points[j + 1]);
+      const speed = points[j + 1].speed;
+      if (distance > STOP_RADIUS_METERS || (speed !== null && speed >= MOVING_SPEED_THRESHOLD)) break;
+      furthest = Math.max(furthest, distance);
+      j++;
+    }
+    // A long gap in the recording with little progress, e.g. between merged activities
+    if (j === i) {
+      furthest = pointDistance(points[i], points[i + 1]);
+      j = i + 1;
+    }
+
+    const durationMs = timeOf(points[j]) - timeOf(points[i]);
+    if (durationMs < MIN_STOP_SECONDS * 1000 || furthest / (durationMs / 1000) >= MOVING_SPEED_THRESHOLD) {
+      i++;
+      continue;
+    }
+
+    const stopped = points.slice(i, j + 1);
+    stops.push({
+      start_time: new Date(points[i].timestamp),
+      end_time: new Date(points[j].timestamp),
+      duration: Math.round(durationMs / 1000),
+      latitude: stopped.reduce((sum, point) => sum + point.latitude, 0) / stopped.length,
+      longitude: stopped.reduce((sum, point) => sum + point.longitude, 0) / stopped.length,
+    });
+    i = j;
+  }
+  return stops;
+}
+
+// Elapsed time, moving time once the stops are taken out, and the average
+// speed over the moving time, so that waiting at a traffic light does not
+// make an activity look slower
+export function computeTiming(points: GPSPoint[], distance = totalDistance(points)): TimingMetrics {
+  const elapsedTime = Math.round((timeOf(points[points.length - 1]) - timeOf(points[0])) / 1000);
+  const stops = detectStops(points);
+  const movingTime = Math.max(0, elapsedTime - stops.reduce((total, stop) => total + stop.duration, 0));
+
+  return {
+    elapsed_time: elapsedTime,
+    moving_time: movingTime,
+    avg_speed: movingTime > 0 ? distance / 1000 / (movingTime / 3600) : 0,
+    stops,
+  };
+}
+
+// Distance (m), elapsed and moving time (s), average speed (km/h), stops and elevation of a time-ordered track
+export function computeActivityMetrics(points: GPSPoint[]): ActivityMetrics {
+  const distance = totalDistance(points);
+  const timing = computeTiming(points, distance);
+
+  return {
+    distance,
+    duration: timing.elapsed_time,
+    ...timing,
+    start_time: new Date(points[0].timestamp),
+    end_time: new Date(points[points.length - 1].timestamp),
+    ...computeElevation(points),
+  };
+}
+
+// Reason why a track cannot be a real activity of the given type, or null if it looks plausible
+export function findImplausibility(
+  points: GPSPoint[],
+  activityType: string,
+  metrics: ActivityMetrics
+): string | null {
+  if (metrics.distance > MAX_DISTANCE) {
+    return `Distance of ${Math.round(metrics.distance / 1000)} km exceeds the maximum of ${MAX_DISTANCE / 1000} km`;
+  }
+  if (metrics.duration > MAX_DURATION) {
+    return 'Activity lasts longer than 7 days';
+  }
+
+  const maxAvgSpeed = MAX_AVG_SPEED[activityType] ?? DEFAULT_MAX_AVG_SPEED;
+  if (metrics.avg_speed > maxAvgSpeed) {
+    return `Average speed of ${metrics.avg_speed.toFixed(1)} km/h is not plausible for ${activityType}`;
+  }
+
+  // Isolated GPS jumps are tolerated, a track made of them is not
+  let fastSegments = 0;
+  for (let i = 1; i < points.length; i++) {
+    const elapsed = (new Date(points[i].timestamp).getTime() - new Date(points[i - 1].timestamp).getTime()) / 1000;
+    const segment = pointDistance(points[i - 1], points[i]);
+    if ((elapsed <= 0 && segment > 0) || (elapsed > 0 && (segment / elapsed) * 3.6 > MAX_SEGMENT_SPEED)) {
+      fastSegments++;
+    }
+  }
+  if (fastSegments > Math.max(1, (points.length - 1) * MAX_SEGMENT_SPEED_RATIO)) {
+    return `${fastSegments} segments exceed ${MAX_SEGMENT_SPEED} km/h`;
+  }
+
+  return null;
+}
@@ -2,11 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { JWTPayload, User } from './types';
 import { Collections } from './database';
-
-const SECRET_KEY = process.env.JWT_SECRET || 'strive-secret-key-2025';
+import { getSecretKey } from './tokens';
+import { findActiveSession, touchSession } from './sessions';
 
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  sessionId?: string;
 }
 
 export function createAuthMiddleware(collections: Collections) {
@@ -21,14 +22,20 @@ export function createAuthMiddleware(collections: Collections) {
 
       const token = authHeader.substring(7);
       
-      const payload = jwt.verify(token, SECRET_KEY) as JWTPayload;
+      const payload = jwt.verify(token, getSecretKey()) as JWTPayload;
       const userId = payload.sub;
 
-      if (!userId) {
+      if (!userId || !payload.sid) {
         res.status(401).json({ detail: 'Invalid token' });
         return;
       }
 
+      const session = await findActiveSession(collections, userId, payload.sid);
+      if (!session) {
+        res.status(401).json({ detail: 'Session revoked' });
+        return;
+      }
+
       const user = await collections.users.findOne({ id: userId });
       
       if (!user) {
@@ -36,7 +43,10 @@ export function createAuthMiddleware(collections: Collections) {
         return;
       }
 
+      await touchSession(collections, session, req.ip || null);
+
       req.user = user;
+      req.sessionId = session.id;
       next();
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
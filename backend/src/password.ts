@@ -0,0 +1,76 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto';
+
+// Encoded format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+const ALGORITHM = 'scrypt';
+const COST = 2 ** 15;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Hashes created before the switch to scrypt: unsalted hex SHA-256
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface PasswordCheck {
+  valid: boolean;
+  // The stored hash uses a legacy algorithm or outdated parameters
+  needsRehash: boolean;
+}
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      { ...options, maxmem: 256 * options.N! * options.r! },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, { N: COST, r: BLOCK_SIZE, p: PARALLELIZATION }, KEY_LENGTH);
+  return [
+    ALGORITHM,
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<PasswordCheck> {
+  if (LEGACY_SHA256_PATTERN.test(storedHash)) {
+    const candidate = createHash('sha256').update(password).digest();
+    const valid = timingSafeEqual(candidate, Buffer.from(storedHash, 'hex'));
+    return { valid, needsRehash: true };
+  }
+
+  const [algorithm, cost, blockSize, parallelization, salt, hash] = storedHash.split('$');
+  if (algorithm !== ALGORITHM || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const N = Number(cost);
+  const r = Number(blockSize);
+  const p = Number(parallelization);
+  const expected = Buffer.from(hash, 'base64');
+  const candidate = await deriveKey(password, Buffer.from(salt, 'base64'), { N, r, p }, expected.length);
+
+  return {
+    valid: timingSafeEqual(candidate, expected),
+    needsRehash: N !== COST || r !== BLOCK_SIZE || p !== PARALLELIZATION || expected.length !== KEY_LENGTH,
+  };
+}
+
+// Spend the same time as a real verification when the account does not
+// exist, so response times do not reveal which emails are registered
+let dummyHash: Promise<string> | null = null;
+
+export async function verifyAgainstDummy(password: string): Promise<void> {
+  dummyHash = dummyHash || hashPassword(randomBytes(16).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
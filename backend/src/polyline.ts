@@ -0,0 +1,85 @@
+// Compact route shapes for activity lists: Douglas–Peucker simplification
+// and the Google encoded polyline format (precision 5).
+
+interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+// Points closer than this (m) to the simplified line are dropped
+export const SUMMARY_TOLERANCE_METERS = 10;
+
+const METERS_PER_DEGREE = 111320;
+
+// Distance (m) from p to the segment [a, b] on a local flat projection
+function distanceToSegment(p: Coordinate, a: Coordinate, b: Coordinate): number {
+  const scale = Math.cos((a.latitude * Math.PI) / 180);
+  const px = (p.longitude - a.longitude) * scale;
+  const py = p.latitude - a.latitude;
+  const bx = (b.longitude - a.longitude) * scale;
+  const by = b.latitude - a.latitude;
+
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared)) : 0;
+  return Math.hypot(px - t * bx, py - t * by) * METERS_PER_DEGREE;
+}
+
+export function simplifyTrack<T extends Coordinate>(points: T[], toleranceMeters: number): T[] {
+  if (points.length <= 2) return points.slice();
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to stay clear of the call stack limit on long tracks
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let maxDistance = toleranceMeters;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+function encodeValue(value: number): string {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let output = '';
+  while (shifted >= 0x20) {
+    output += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+  return output + String.fromCharCode(shifted + 63);
+}
+
+export function encodePolyline(points: Coordinate[]): string {
+  let previousLatitude = 0;
+  let previousLongitude = 0;
+  let output = '';
+
+  for (const point of points) {
+    const latitude = Math.round(point.latitude * 1e5);
+    const longitude = Math.round(point.longitude * 1e5);
+    output += encodeValue(latitude - previousLatitude) + encodeValue(longitude - previousLongitude);
+    previousLatitude = latitude;
+    previousLongitude = longitude;
+  }
+
+  return output;
+}
+
+// Simplified, encoded shape of a track for list thumbnails
+export function summaryPolyline(points: Coordinate[]): string {
+  return encodePolyline(simplifyTrack(points, SUMMARY_TOLERANCE_METERS));
+}
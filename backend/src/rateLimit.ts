@@ -0,0 +1,275 @@
+import { Response, NextFunction } from 'express';
+import { Collection } from 'mongodb';
+import { Collections } from './database';
+import { AuthenticatedRequest } from './middleware';
+import { RateLimitEntry } from './types';
+
+export interface WindowLimit {
+  limit: number;
+  windowMs: number;
+}
+
+// Limits of one route. Each key type is counted separately: per client IP,
+// per account targeted by the request (email in the body) and per signed-in user.
+export interface RouteLimits {
+  name: string;
+  perIp?: WindowLimit;
+  perAccount?: WindowLimit;
+  perUser?: WindowLimit;
+}
+
+export interface ConsumeResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+// Progressive lockout: after `threshold` consecutive failures the key is locked
+// for `baseLockMs`, doubled on every further failure up to `maxLockMs`.
+export interface LockoutPolicy {
+  threshold: number;
+  baseLockMs: number;
+  maxLockMs: number;
+  // Failures are forgotten after this long without a new one
+  resetAfterMs: number;
+}
+
+export interface RateLimitStore {
+  // Record a hit in the sliding window of a key unless the limit is reached
+  consume(key: string, limit: WindowLimit, now: number): Promise<ConsumeResult>;
+  // Remaining lock time of a key in ms, 0 when not locked
+  lockedFor(key: string, now: number): Promise<number>;
+  recordFailure(key: string, policy: LockoutPolicy, now: number): Promise<void>;
+  clearFailures(key: string): Promise<void>;
+}
+
+export class RateLimitError extends Error {
+  retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function lockDuration(failures: number, policy: LockoutPolicy): number {
+  if (failures < policy.threshold) return 0;
+  return Math.min(policy.baseLockMs * 2 ** (failures - policy.threshold), policy.maxLockMs);
+}
+
+// ==================== MEMORY STORE ====================
+
+interface MemoryLockout {
+  failures: number;
+  lockedUntil: number;
+  expiresAt: number;
+}
+
+// Single-instance store; counters are lost on restart
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private lockouts = new Map<string, MemoryLockout>();
+  private longestWindowMs = 0;
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    setInterval(() => this.sweep(Date.now()), sweepIntervalMs).unref();
+  }
+
+  async consume(key: string, limit: WindowLimit, now: number): Promise<ConsumeResult> {
+    this.longestWindowMs = Math.max(this.longestWindowMs, limit.windowMs);
+    const recent = (this.hits.get(key) || []).filter((time) => time > now - limit.windowMs);
+
+    if (recent.length >= limit.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[recent.length - limit.limit] + limit.windowMs - now };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  async lockedFor(key: string, now: number): Promise<number> {
+    const lockout = this.lockouts.get(key);
+    return lockout ? Math.max(0, lockout.lockedUntil - now) : 0;
+  }
+
+  async recordFailure(key: string, policy: LockoutPolicy, now: number): Promise<void> {
+    const previous = this.lockouts.get(key);
+    const failures = (previous && previous.expiresAt > now ? previous.failures : 0) + 1;
+    this.lockouts.set(key, {
+      failures,
+      lockedUntil: now + lockDuration(failures, policy),
+      expiresAt: now + policy.resetAfterMs,
+    });
+  }
+
+  async clearFailures(key: string): Promise<void> {
+    this.lockouts.delete(key);
+  }
+
+  private sweep(now: number) {
+    for (const [key, times] of this.hits) {
+      if (times.length === 0 || times[times.length - 1] <= now - this.longestWindowMs) {
+        this.hits.delete(key);
+      }
+    }
+    for (const [key, lockout] of this.lockouts) {
+      if (lockout.expiresAt <= now) {
+        this.lockouts.delete(key);
+      }
+    }
+  }
+}
+
+// ==================== MONGO STORE ====================
+
+// Shared between API instances. Each key is one document updated atomically;
+// the TTL index on expires_at removes idle keys.
+export class MongoRateLimitStore implements RateLimitStore {
+  constructor(private collection: Collection<RateLimitEntry>) {}
+
+  async consume(key: string, limit: WindowLimit, now: number): Promise<ConsumeResult> {
+    const cutoff = new Date(now - limit.windowMs);
+    const hit = new Date(now);
+
+    // Drop hits outside the window, then append this one if there is room
+    const entry = await this.collection.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            key,
+            hits: {
+              $let: {
+                vars: {
+                  recent: {
+                    $filter: { input: { $ifNull: ['$hits', []] }, cond: { $gt: ['$$this', cutoff] } },
+                  },
+                },
+                in: {
+                  $cond: [
+                    { $lt: [{ $size: '$$recent' }, limit.limit] },
+                    { $concatArrays: ['$$recent', [hit]] },
+                    '$$recent',
+                  ],
+                },
+              },
+            },
+            expires_at: new Date(now + limit.windowMs),
+          },
+        },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    // The hit was recorded if it is the last one
+    const hits = entry?.hits || [];
+    if (hits.length > 0 && hits[hits.length - 1].getTime() === now) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: hits[hits.length - limit.limit].getTime() + limit.windowMs - now };
+  }
+
+  async lockedFor(key: string, now: number): Promise<number> {
+    const entry = await this.collection.findOne({ key });
+    return entry?.locked_until ? Math.max(0, entry.locked_until.getTime() - now) : 0;
+  }
+
+  async recordFailure(key: string, policy: LockoutPolicy, now: number): Promise<void> {
+    const entry = await this.collection.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            key,
+            failures: {
+              $add: [
+                { $cond: [{ $gt: [{ $ifNull: ['$expires_at', new Date(0)] }, new Date(now)] }, { $ifNull: ['$failures', 0] }, 0] },
+                1,
+              ],
+            },
+            expires_at: new Date(now + policy.resetAfterMs),
+          },
+        },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    const lockMs = lockDuration(entry?.failures || 0, policy);
+    if (lockMs > 0) {
+      await this.collection.updateOne({ key }, { $set: { locked_until: new Date(now + lockMs) } });
+    }
+  }
+
+  async clearFailures(key: string): Promise<void> {
+    await this.collection.deleteOne({ key });
+  }
+}
+
+export function createRateLimitStore(collections: Collections): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'mongo'
+    ? new MongoRateLimitStore(collections.rateLimits)
+    : new MemoryRateLimitStore();
+}
+
+// ==================== MIDDLEWARE ====================
+
+export function sendTooManyRequests(res: Response, retryAfterMs: number, detail = 'Too many requests, try again later') {
+  res.setHeader('Retry-After', Math.max(1, Math.ceil(retryAfterMs / 1000)).toString());
+  res.status(429).json({ detail });
+}
+
+// Rejects requests over the limits of the route with 429 and Retry-After.
+// perAccount reads the email from the body, so it must run after validation;
+// perUser needs the auth middleware.
+export function createRateLimiter(store: RateLimitStore) {
+  return (limits: RouteLimits) =>
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+      const checks: [string, WindowLimit][] = [];
+      if (limits.perIp) {
+        checks.push([`${limits.name}:ip:${req.ip}`, limits.perIp]);
+      }
+      if (limits.perAccount && typeof req.body?.email === 'string') {
+        checks.push([`${limits.name}:account:${req.body.email}`, limits.perAccount]);
+      }
+      if (limits.perUser && req.user) {
+        checks.push([`${limits.name}:user:${req.user.id}`, limits.perUser]);
+      }
+
+      try {
+        const now = Date.now();
+        for (const [key, limit] of checks) {
+          const result = await store.consume(key, limit, now);
+          if (!result.allowed) {
+            sendTooManyRequests(res, result.retryAfterMs);
+            return;
+          }
+        }
+      } catch (error) {
+        // Do not lock everyone out because the store is unavailable
+        console.error('Rate limit error:', error);
+      }
+
+      next();
+    };
+}
+
+// Account lockout after repeated failed logins, keyed by email so that it
+// behaves the same whether or not the account exists
+export function createLoginLockout(store: RateLimitStore, policy: LockoutPolicy) {
+  const key = (email: string) => `lockout:login:${email}`;
+
+  return {
+    async check(email: string): Promise<void> {
+      const lockedMs = await store.lockedFor(key(email), Date.now());
+      if (lockedMs > 0) {
+        throw new RateLimitError('Too many failed login attempts, try again later', lockedMs);
+      }
+    },
+    recordFailure: (email: string) => store.recordFailure(key(email), policy, Date.now()),
+    clear: (email: string) => store.clearFailures(key(email)),
+  };
+}
+
+export type LoginLockout = ReturnType<typeof createLoginLockout>;
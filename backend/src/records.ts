@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from './database';
+import { pointDistance } from './metrics';
+import { Activity, BestEffort, BestEffortResponse, GPSPoint, NewRecord, PersonalRecord } from './types';
+
+interface EffortDistance {
+  name: string;
+  distance: number;
+}
+
+// Standard distances (m) tracked per activity type
+export const BEST_EFFORT_DISTANCES: Record<string, EffortDistance[]> = {
+  running: [
+    { name: '400m', distance: 400 },
+    { name: '1k', distance: 1000 },
+    { name: '1mile', distance: 1609.344 },
+    { name: '5k', distance: 5000 },
+    { name: '10k', distance: 10000 },
+    { name: 'half_marathon', distance: 21097.5 },
+    { name: 'marathon', distance: 42195 },
+  ],
+  cycling: [
+    { name: '10k', distance: 10000 },
+    { name: '20k', distance: 20000 },
+    { name: '40k', distance: 40000 },
+    { name: '100k', distance: 100000 },
+  ],
+};
+
+// Ranks reported on an activity's efforts
+const PR_RANKS = 3;
+
+type ComputedEffort = Pick<BestEffort, 'name' | 'distance' | 'elapsed_time' | 'start_index' | 'end_index' | 'start_time'>;
+
+// Fastest stretch of each standard distance in a time-ordered track. A window
+// slides over the cumulative distance; its start is interpolated between two
+// points so that every effort covers exactly the distance.
+export function findBestEfforts(points: GPSPoint[], activityType: string): ComputedEffort[] {
+  const distances = BEST_EFFORT_DISTANCES[activityType] || [];
+  const times = points.map((point) => new Date(point.timestamp).getTime());
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + pointDistance(points[i - 1], points[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+
+  const efforts: ComputedEffort[] = [];
+  for (const { name, distance } of distances) {
+    if (total < distance) continue;
+
+    let best: { elapsedMs: number; startMs: number; startIndex: number; endIndex: number } | null = null;
+    let start = 0;
+    for (let end = 1; end < points.length; end++) {
+      const target = cumulative[end] - distance;
+      if (target < 0) continue;
+      while (cumulative[start + 1] <= target) start++;
+
+      const segment = cumulative[start + 1] - cumulative[start];
+      const fraction = segment > 0 ? (target - cumulative[start]) / segment : 0;
+      const startMs = times[start] + fraction * (times[start + 1] - times[start]);
+      const elapsedMs = times[end] - startMs;
+      if (!best || elapsedMs < best.elapsedMs) {
+        best = { elapsedMs, startMs, startIndex: start, endIndex: end };
+      }
+    }
+
+    if (best) {
+      efforts.push({
+        name,
+        distance,
+        elapsed_time: Math.round(best.elapsedMs / 1000),
+        start_index: best.startIndex,
+        end_index: best.endIndex,
+        start_time: new Date(Math.round(best.startMs)),
+      });
+    }
+  }
+  return efforts;
+}
+
+// Compute and store the best efforts of a new activity, returning the
+// distances on which it beats the user's previous record
+export async function saveBestEfforts(collections: Collections, activity: Activity): Promise<NewRecord[]> {
+  const efforts = findBestEfforts(activity.gps_points, activity.activity_type);
+  if (efforts.length === 0) {
+    return [];
+  }
+
+  const previousBests = await collections.bestEfforts
+    .aggregate<{ _id: string; elapsed_time: number }>([
+      {
+        $match: {
+          user_id: activity.user_id,
+          activity_type: activity.activity_type,
+          name: { $in: efforts.map((effort) => effort.name) },
+        },
+      },
+      { $group: { _id: '$name', elapsed_time: { $min: '$elapsed_time' } } },
+    ])
+    .toArray();
+  const previousByName = new Map(previousBests.map((best) => [best._id, best.elapsed_time]));
+
+  const now = new Date();
+  await collections.bestEfforts.insertMany(
+    efforts.map((effort) => ({
+      id: uuidv4(),
+      user_id: activity.user_id,
+      activity_id: activity.id,
+      activity_type: activity.activity_type,
+      ...effort,
+      created_at: now,
+    }))
+  );
+
+  return efforts
+    .filter((effort) => {
+      const previous = previousByName.get(effort.name);
+      return previous === undefined || effort.elapsed_time < previous;
+    })
+    .map((effort) => ({
+      name: effort.name,
+      distance: effort.distance,
+      elapsed_time: effort.elapsed_time,
+      previous_elapsed_time: previousByName.get(effort.name) ?? null,
+    }));
+}
+
+// Recompute the best efforts of an activity whose track or type changed
+export async function replaceBestEfforts(collections: Collections, activity: Activity): Promise<void> {
+  await collections.bestEfforts.deleteMany({ activity_id: activity.id });
+  await saveBestEfforts(collections, activity);
+}
+
+// Best efforts of an activity with their rank among all of the user's efforts
+export async function activityBestEfforts(collections: Collections, activity: Activity): Promise<BestEffortResponse[]> {
+  const efforts = await collections.bestEfforts
+    .find({ activity_id: activity.id, user_id: activity.user_id })
+    .sort({ distance: 1 })
+    .toArray();
+
+  return Promise.all(
+    efforts.map(async (effort) => {
+      const faster = await collections.bestEfforts.countDocuments(
+        {
+          user_id: effort.user_id,
+          activity_type: effort.activity_type,
+          name: effort.name,
+          elapsed_time: { $lt: effort.elapsed_time },
+        },
+        { limit: PR_RANKS }
+      );
+      return {
+        name: effort.name,
+        distance: effort.distance,
+        elapsed_time: effort.elapsed_time,
+        start_index: effort.start_index,
+        end_index: effort.end_index,
+        start_time: effort.start_time,
+        pr_rank: faster < PR_RANKS ? faster + 1 : null,
+      };
+    })
+  );
+}
+
+// Fastest effort of every type and distance, earliest first on ties
+export async function listPersonalRecords(collections: Collections, userId: string): Promise<PersonalRecord[]> {
+  return collections.bestEfforts
+    .aggregate<PersonalRecord>([
+      { $match: { user_id: userId } },
+      { $sort: { elapsed_time: 1, start_time: 1 } },
+      {
+        $group: {
+          _id: { activity_type: '$activity_type', name: '$name' },
+          distance: { $first: '$distance' },
+          elapsed_time: { $first: '$elapsed_time' },
+          activity_id: { $first: '$activity_id' },
+          start_time: { $first: '$start_time' },
+        },
+      },
+      { $sort: { '_id.activity_type': 1, distance: 1 } },
+      {
+        $project: {
+          _id: 0,
+          activity_type: '$_id.activity_type',
+          name: '$_id.name',
+          distance: 1,
+          elapsed_time: 1,
+          activity_id: 1,
+          start_time: 1,
+        },
+      },
+    ])
+    .toArray();
+}
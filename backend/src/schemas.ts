@@ -0,0 +1,236 @@
+import { z } from 'zod';
+
+export const ACTIVITY_TYPES = ['running', 'cycling', 'walking', 'hiking'] as const;
+
+const activityType = z.enum(ACTIVITY_TYPES, { error: 'Must be one of: ' + ACTIVITY_TYPES.join(', ') });
+const email = z
+  .string({ error: 'Email is required' })
+  .trim()
+  .toLowerCase()
+  .pipe(z.email({ error: 'Invalid email address' }));
+const newPassword = z
+  .string({ error: 'Password is required' })
+  .min(6, { error: 'Password must be at least 6 characters' })
+  .max(128);
+const dateTime = z.coerce.date({ error: 'Invalid date' });
+
+// IANA timezone name such as "Europe/Paris"
+const timezone = z.string().refine(
+  (value) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { error: 'Unknown timezone' }
+);
+
+// ==================== AUTH ====================
+
+// Optional description of the device signing in, shown in the sessions list
+const deviceFields = {
+  device_name: z.string().trim().max(100).nullable().optional(),
+  platform: z.string().trim().max(20).nullable().optional(),
+};
+
+export const registerSchema = z.object({
+  name: z.string({ error: 'Name is required' }).trim().min(1, { error: 'Name is required' }).max(100),
+  email,
+  password: newPassword,
+  ...deviceFields,
+});
+
+export const loginSchema = z.object({
+  email,
+  password: z.string({ error: 'Password is required' }).min(1, { error: 'Password is required' }),
+  ...deviceFields,
+});
+
+export const profileUpdateSchema = z.object({
+  name: z.string().trim().min(1, { error: 'Name cannot be empty' }).max(100).optional(),
+  email: email.optional(),
+  photo: z.string().max(5 * 1024 * 1024, { error: 'Photo is too large' }).nullable().optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refresh_token: z.string({ error: 'Refresh token is required' }).min(1, { error: 'Refresh token is required' }),
+});
+
+export const forgotPasswordSchema = z.object({
+  email,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string({ error: 'Reset token is required' }).trim().min(1, { error: 'Reset token is required' }),
+  password: newPassword,
+});
+
+export const changePasswordSchema = z.object({
+  current_password: z.string({ error: 'Current password is required' }).min(1, { error: 'Current password is required' }),
+  new_password: newPassword,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string({ error: 'Verification token is required' }).trim().min(1, { error: 'Verification token is required' }),
+});
+
+const totpCode = z
+  .string({ error: 'Code is required' })
+  .trim()
+  .regex(/^\d{6}$/, { error: 'Code must be 6 digits' });
+
+export const twoFactorEnableSchema = z.object({
+  code: totpCode,
+});
+
+// Accepts an authenticator code or a recovery code
+export const twoFactorVerifySchema = z.object({
+  challenge_token: z.string({ error: 'Challenge token is required' }).min(1, { error: 'Challenge token is required' }),
+  code: z.string({ error: 'Code is required' }).trim().min(1, { error: 'Code is required' }).max(32),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string({ error: 'Password is required' }).min(1, { error: 'Password is required' }),
+  code: z.string({ error: 'Code is required' }).trim().min(1, { error: 'Code is required' }).max(32),
+});
+
+export const sessionIdParams = z.object({
+  sessionId: z.string().min(1),
+});
+
+// ==================== ACTIVITIES ====================
+
+export const gpsPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  altitude: z.number().nullable().default(null),
+  accuracy: z.number().min(0).nullable().default(null),
+  speed: z.number().nullable().default(null),
+  timestamp: dateTime,
+});
+
+const activityMetadataFields = {
+  title: z.string().trim().min(1, { error: 'Title cannot be empty' }).max(100).optional(),
+  // An empty description clears it
+  description: z
+    .string()
+    .trim()
+    .max(2000)
+    .nullable()
+    .optional()
+    .transform((value) => (value === '' ? null : value)),
+};
+
+export const activityCreateSchema = z.object({
+  activity_type: activityType,
+  gps_points: z.array(gpsPointSchema).min(2, { error: 'At least 2 GPS points are required' }),
+  distance: z.number().min(0),
+  duration: z.number().min(0),
+  avg_speed: z.number().min(0),
+  start_time: dateTime,
+  end_time: dateTime,
+  ...activityMetadataFields,
+  timezone: timezone.optional(),
+});
+
+export const activityUpdateSchema = z
+  .object({
+    ...activityMetadataFields,
+    activity_type: activityType.optional(),
+    perceived_exertion: z
+      .number()
+      .int()
+      .min(1, { error: 'Must be between 1 and 10' })
+      .max(10, { error: 'Must be between 1 and 10' })
+      .nullable()
+      .optional(),
+    tags: z
+      .array(z.string().trim().min(1, { error: 'Tags cannot be empty' }).max(30))
+      .max(20, { error: 'At most 20 tags' })
+      .transform((tags) => [...new Set(tags)])
+      .optional(),
+  })
+  .refine((update) => Object.values(update).some((value) => value !== undefined), { error: 'No fields to update' });
+
+// Each bound as a point index or a timestamp, omitted bounds keep that end
+export const activityCropSchema = z
+  .object({
+    start_index: z.number().int().min(0).optional(),
+    end_index: z.number().int().min(0).optional(),
+    start_time: dateTime.optional(),
+    end_time: dateTime.optional(),
+  })
+  .refine((range) => !(range.start_index !== undefined && range.start_time), {
+    error: 'Give start_index or start_time, not both',
+  })
+  .refine((range) => !(range.end_index !== undefined && range.end_time), {
+    error: 'Give end_index or end_time, not both',
+  })
+  .refine((range) => Object.values(range).some((value) => value !== undefined), {
+    error: 'A start or end is required',
+  });
+
+export const activitySplitSchema = z.object({
+  timestamp: dateTime,
+  activity_type: activityType.optional(),
+  timezone: timezone.optional(),
+});
+
+// Ids in chronological order
+export const activityMergeSchema = z.object({
+  activity_ids: z
+    .array(z.string().min(1))
+    .min(2, { error: 'At least 2 activities are required' })
+    .max(20, { error: 'At most 20 activities can be merged' }),
+});
+
+// Bulk delete and restore
+export const activityIdsSchema = z.object({
+  activity_ids: z
+    .array(z.string().min(1))
+    .min(1, { error: 'At least 1 activity is required' })
+    .max(100, { error: 'At most 100 activities at once' }),
+});
+
+export const activityIdParams = z.object({
+  activityId: z.string().min(1),
+});
+
+export const activityListQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  skip: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(['date', 'distance', 'duration', 'speed'], { error: 'Must be one of: date, distance, duration, speed' }).default('date'),
+  order: z.enum(['asc', 'desc'], { error: 'Must be one of: asc, desc' }).default('desc'),
+  include: z.enum(['points'], { error: 'Must be: points' }).optional(),
+  activity_type: activityType.optional(),
+  from: dateTime.optional(),
+  to: dateTime.optional(),
+  min_distance: z.coerce.number().min(0).optional(),
+  max_distance: z.coerce.number().min(0).optional(),
+  min_duration: z.coerce.number().min(0).optional(),
+  max_duration: z.coerce.number().min(0).optional(),
+});
+
+export const activityExportQuery = z.object({
+  format: z.enum(['gpx'], { error: 'Unsupported export format' }).default('gpx'),
+});
+
+export const activitySplitsQuery = z.object({
+  unit: z.enum(['km', 'mi'], { error: 'Must be one of: km, mi' }).default('km'),
+});
+
+export const activityImportQuery = z.object({
+  format: z.enum(['gpx', 'tcx', 'fit'], { error: 'Unsupported import format' }).optional(),
+  activity_type: activityType.optional(),
+  timezone: timezone.optional(),
+});
+
+export const statsPeriodsQuery = z.object({
+  granularity: z.enum(['week', 'month', 'year'], { error: 'Must be one of: week, month, year' }).default('week'),
+  from: dateTime.optional(),
+  to: dateTime.optional(),
+  timezone: timezone.default('UTC'),
+});
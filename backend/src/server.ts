@@ -1,21 +1,91 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { createHash } from 'crypto';
-import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import dotenv from 'dotenv';
 
 import { connectToDatabase, closeDatabase, Collections } from './database';
 import { createAuthMiddleware, AuthenticatedRequest } from './middleware';
+import { activityToGpx, gpxFileName } from './gpx';
 import {
+  createActivity,
+  updateActivity,
+  ActivityRejectedError,
+  ActivityNotFoundError,
+  DETAIL_PROJECTION,
+  withStops,
+  backfillStops,
+} from './activities';
+import { cropActivity, undoCrop, CropError, CropRange } from './crop';
+import { trashActivities, restoreActivities, listTrash, startTrashPurge } from './trash';
+import { splitActivity, mergeActivities, revertActivity, SplitMergeError, SplitOptions } from './splitMerge';
+import { listActivities, InvalidCursorError, ActivityListOptions } from './activityList';
+import { parseTrackFile, parseFitFile, ImportError } from './trackImport';
+import { isFitFile } from './fit';
+import { validate } from './validation';
+import { hashPassword, verifyPassword, verifyAgainstDummy } from './password';
+import {
+  issueTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  RefreshTokenError,
+  TWO_FACTOR_CHALLENGE_EXPIRE_MINUTES,
+} from './tokens';
+import { startTwoFactorSetup, enableTwoFactor, disableTwoFactor, verifySecondFactor } from './twoFactor';
+import { listActiveSessions, revokeSession, revokeUserSessions, toSessionResponse, SessionDevice } from './sessions';
+import { createAuthToken, consumeAuthToken } from './authTokens';
+import { activityBestEfforts, listPersonalRecords } from './records';
+import { computeSplits, computeLapSplits } from './splits';
+import { computeGlobalStats, computePeriodStats, StatsRangeError, PeriodStatsOptions } from './stats';
+import { createMailTransport } from './mail';
+import { passwordResetEmail, emailVerificationEmail } from './emails';
+import {
+  createRateLimitStore,
+  createRateLimiter,
+  createLoginLockout,
+  sendTooManyRequests,
+  RateLimitError,
+  RouteLimits,
+} from './rateLimit';
+import {
+  registerSchema,
+  loginSchema,
+  profileUpdateSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  verifyEmailSchema,
+  twoFactorEnableSchema,
+  twoFactorVerifySchema,
+  twoFactorDisableSchema,
+  sessionIdParams,
+  activityCreateSchema,
+  activityUpdateSchema,
+  activityCropSchema,
+  activitySplitSchema,
+  activityMergeSchema,
+  activityIdsSchema,
+  activityIdParams,
+  activityListQuery,
+  activityExportQuery,
+  activitySplitsQuery,
+  activityImportQuery,
+  statsPeriodsQuery,
+} from './schemas';
+import {
+  User,
   UserCreate,
   UserLogin,
   UserUpdate,
   UserResponse,
   TokenResponse,
+  TwoFactorChallengeResponse,
   ActivityCreate,
-  Activity,
-  GlobalStats,
+  ActivityUpdate,
+  SplitUnit,
+  SplitsResponse,
 } from './types';
 
 // Load environment variables
@@ -24,48 +94,106 @@ dotenv.config();
 const app = express();
 const PORT = 8001;
 
-// JWT Config
-const SECRET_KEY = process.env.JWT_SECRET || 'strive-secret-key-2025';
-const ACCESS_TOKEN_EXPIRE_DAYS = 30;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
 
-// Middleware
-app.use(cors());
-app.use(express.json({ limit: '50mb' }));
+// Request quotas per route (sliding windows)
+const RATE_LIMITS: Record<string, RouteLimits> = {
+  login: {
+    name: 'login',
+    perIp: { limit: 30, windowMs: 15 * MINUTE },
+    perAccount: { limit: 10, windowMs: 15 * MINUTE },
+  },
+  register: { name: 'register', perIp: { limit: 5, windowMs: HOUR } },
+  forgotPassword: {
+    name: 'forgot-password',
+    perIp: { limit: 10, windowMs: HOUR },
+    perAccount: { limit: 3, windowMs: HOUR },
+  },
+  resetPassword: { name: 'reset-password', perIp: { limit: 20, windowMs: HOUR } },
+  changePassword: { name: 'change-password', perUser: { limit: 10, windowMs: HOUR } },
+  twoFactorVerify: { name: '2fa-verify', perIp: { limit: 30, windowMs: 15 * MINUTE } },
+  activityCreate: { name: 'activity-create', perUser: { limit: 60, windowMs: HOUR } },
+  activityImport: { name: 'activity-import', perUser: { limit: 20, windowMs: HOUR } },
+};
 
-// Helper functions
-function hashPassword(password: string): string {
-  return createHash('sha256').update(password).digest('hex');
-}
+// Account lockout after repeated failed logins: 1 minute after 5 failures,
+// doubled on each further failure, at most 1 hour
+const LOGIN_LOCKOUT = {
+  threshold: 5,
+  baseLockMs: MINUTE,
+  maxLockMs: HOUR,
+  resetAfterMs: 24 * HOUR,
+};
 
-function createAccessToken(userId: string): string {
-  const now = Math.floor(Date.now() / 1000);
-  const expire = now + ACCESS_TOKEN_EXPIRE_DAYS * 24 * 60 * 60;
-  
-  return jwt.sign(
-    { sub: userId, exp: expire, iat: now },
-    SECRET_KEY
-  );
+const PASSWORD_RESET_EXPIRE_MINUTES = 60;
+const EMAIL_VERIFICATION_EXPIRE_HOURS = 48;
+
+// Behind a reverse proxy, set TRUST_PROXY so req.ip is the client address
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', process.env.TRUST_PROXY === 'true' ? true : process.env.TRUST_PROXY);
 }
 
+// Middleware
+// Custom headers must be exposed for browsers to read them
+app.use(cors({ exposedHeaders: ['X-Next-Cursor', 'Retry-After'] }));
+app.use(express.json({ limit: '50mb' }));
+
+// Helper functions
 function toUserResponse(user: any): UserResponse {
   return {
     id: user.id,
     name: user.name,
     email: user.email,
+    email_verified: user.email_verified ?? false,
+    pending_email: user.pending_email ?? null,
+    two_factor_enabled: user.two_factor_enabled ?? false,
     photo: user.photo || null,
     created_at: user.created_at,
   };
 }
 
+function requestDevice(req: Request, data: UserCreate | UserLogin): SessionDevice {
+  return {
+    device_name: data.device_name ?? null,
+    platform: data.platform ?? null,
+    ip: req.ip || null,
+  };
+}
+
 // Initialize server
 async function startServer() {
   const collections = await connectToDatabase();
   const authMiddleware = createAuthMiddleware(collections);
+  const mailTransport = createMailTransport();
+  const rateLimitStore = createRateLimitStore(collections);
+  const rateLimit = createRateLimiter(rateLimitStore);
+  const loginLockout = createLoginLockout(rateLimitStore, LOGIN_LOCKOUT);
+  startTrashPurge(collections);
+  backfillStops(collections)
+    .then((updated) => {
+      if (updated > 0) {
+        console.log(`⏱️  Detected stops on ${updated} older activities`);
+      }
+    })
+    .catch((error) => console.error('Stop backfill error:', error));
+
+  // Send a confirmation link for an address of the user (current or pending)
+  const sendVerificationEmail = async (user: User, email: string) => {
+    const token = await createAuthToken(
+      collections,
+      user.id,
+      'email_verification',
+      EMAIL_VERIFICATION_EXPIRE_HOURS * 60,
+      email
+    );
+    await mailTransport.send(emailVerificationEmail(email, user.name, token, EMAIL_VERIFICATION_EXPIRE_HOURS));
+  };
 
   // ==================== AUTH ROUTES ====================
 
   // Register
-  app.post('/api/auth/register', async (req: Request, res: Response) => {
+  app.post('/api/auth/register', rateLimit(RATE_LIMITS.register), validate({ body: registerSchema }), async (req: Request, res: Response) => {
     try {
       const userData: UserCreate = req.body;
 
@@ -80,21 +208,26 @@ async function startServer() {
       }
 
       const userId = uuidv4();
-      const userDoc = {
+      const userDoc: User = {
         id: userId,
         name: userData.name,
         email: userData.email.toLowerCase(),
-        password_hash: hashPassword(userData.password),
+        email_verified: false,
+        pending_email: null,
+        password_hash: await hashPassword(userData.password),
         photo: null,
         created_at: new Date(),
       };
 
       await collections.users.insertOne(userDoc as any);
+      sendVerificationEmail(userDoc, userDoc.email).catch((error) =>
+        console.error('Verification mail error:', error)
+      );
 
-      const token = createAccessToken(userId);
+      const tokens = await issueTokens(collections, userId, requestDevice(req, userData));
 
       const response: TokenResponse = {
-        access_token: token,
+        ...tokens,
         token_type: 'bearer',
         user: toUserResponse(userDoc),
       };
@@ -107,41 +240,285 @@ async function startServer() {
   });
 
   // Login
-  app.post('/api/auth/login', async (req: Request, res: Response) => {
+  app.post('/api/auth/login', validate({ body: loginSchema }), rateLimit(RATE_LIMITS.login), async (req: Request, res: Response) => {
     try {
       const credentials: UserLogin = req.body;
+      await loginLockout.check(credentials.email);
 
       const user = await collections.users.findOne({ 
         email: credentials.email.toLowerCase() 
       });
 
-      if (!user || user.password_hash !== hashPassword(credentials.password)) {
+      if (!user) {
+        await verifyAgainstDummy(credentials.password);
+        await loginLockout.recordFailure(credentials.email);
         res.status(401).json({ detail: 'Invalid email or password' });
         return;
       }
 
-      const token = createAccessToken(user.id);
+      const passwordCheck = await verifyPassword(credentials.password, user.password_hash);
+      if (!passwordCheck.valid) {
+        await loginLockout.recordFailure(credentials.email);
+        res.status(401).json({ detail: 'Invalid email or password' });
+        return;
+      }
+
+      // Transparently upgrade legacy SHA-256 hashes and outdated parameters
+      if (passwordCheck.needsRehash) {
+        await collections.users.updateOne(
+          { id: user.id },
+          { $set: { password_hash: await hashPassword(credentials.password) } }
+        );
+      }
+
+      // Second step at /api/auth/2fa/verify; failed codes count towards the lockout
+      if (user.two_factor_enabled) {
+        const challenge: TwoFactorChallengeResponse = {
+          two_factor_required: true,
+          challenge_token: createTwoFactorChallenge(user.id, requestDevice(req, credentials)),
+          expires_in: TWO_FACTOR_CHALLENGE_EXPIRE_MINUTES * 60,
+        };
+        res.json(challenge);
+        return;
+      }
+
+      await loginLockout.clear(credentials.email);
+      const tokens = await issueTokens(collections, user.id, requestDevice(req, credentials));
 
       const response: TokenResponse = {
-        access_token: token,
+        ...tokens,
         token_type: 'bearer',
         user: toUserResponse(user),
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        sendTooManyRequests(res, error.retryAfterMs, error.message);
+        return;
+      }
       console.error('Login error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
+  // Exchange a refresh token for a new token pair
+  app.post('/api/auth/refresh', validate({ body: refreshTokenSchema }), async (req: Request, res: Response) => {
+    try {
+      const rotated = await rotateRefreshToken(collections, req.body.refresh_token, req.ip || null);
+
+      const user = await collections.users.findOne({ id: rotated.user_id });
+      if (!user) {
+        res.status(401).json({ detail: 'User not found' });
+        return;
+      }
+
+      const response: TokenResponse = {
+        access_token: rotated.access_token,
+        refresh_token: rotated.refresh_token,
+        expires_in: rotated.expires_in,
+        token_type: 'bearer',
+        user: toUserResponse(user),
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof RefreshTokenError) {
+        res.status(401).json({ detail: error.message });
+        return;
+      }
+      console.error('Refresh error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Logout (revokes the session the refresh token belongs to)
+  app.post('/api/auth/logout', validate({ body: refreshTokenSchema }), async (req: Request, res: Response) => {
+    try {
+      await revokeRefreshToken(collections, req.body.refresh_token);
+      res.json({ message: 'Logged out' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Request a password reset link. The response is the same whether or not
+  // the email is registered, so it cannot be used to discover accounts.
+  app.post('/api/auth/forgot-password', validate({ body: forgotPasswordSchema }), rateLimit(RATE_LIMITS.forgotPassword), async (req: Request, res: Response) => {
+    try {
+      const user = await collections.users.findOne({ email: req.body.email });
+
+      if (user) {
+        const token = await createAuthToken(collections, user.id, 'password_reset', PASSWORD_RESET_EXPIRE_MINUTES);
+        // Not awaited so the response time does not depend on the account existing
+        mailTransport
+          .send(passwordResetEmail(user.email, user.name, token, PASSWORD_RESET_EXPIRE_MINUTES))
+          .catch((error) => console.error('Password reset mail error:', error));
+      }
+
+      res.json({ message: 'If this email is registered, a reset link has been sent' });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Set a new password with a reset token; signs out every device
+  app.post('/api/auth/reset-password', rateLimit(RATE_LIMITS.resetPassword), validate({ body: resetPasswordSchema }), async (req: Request, res: Response) => {
+    try {
+      const resetToken = await consumeAuthToken(collections, req.body.token, 'password_reset');
+      if (!resetToken) {
+        res.status(400).json({ detail: 'Invalid or expired reset token' });
+        return;
+      }
+
+      await collections.users.updateOne(
+        { id: resetToken.user_id },
+        { $set: { password_hash: await hashPassword(req.body.password) } }
+      );
+      await revokeUserSessions(collections, resetToken.user_id);
+
+      res.json({ message: 'Password has been reset' });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Change password; every other device is signed out
+  app.post(
+    '/api/auth/change-password',
+    authMiddleware,
+    rateLimit(RATE_LIMITS.changePassword),
+    validate({ body: changePasswordSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const passwordCheck = await verifyPassword(req.body.current_password, req.user!.password_hash);
+        if (!passwordCheck.valid) {
+          res.status(400).json({ detail: 'Current password is incorrect' });
+          return;
+        }
+
+        await collections.users.updateOne(
+          { id: req.user!.id },
+          { $set: { password_hash: await hashPassword(req.body.new_password) } }
+        );
+        await revokeUserSessions(collections, req.user!.id, req.sessionId);
+
+        res.json({ message: 'Password changed' });
+      } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Confirm an email address with the token sent by email. Works without
+  // being signed in since the link may be opened on another device.
+  app.post('/api/auth/verify-email', validate({ body: verifyEmailSchema }), async (req: Request, res: Response) => {
+    try {
+      const verification = await consumeAuthToken(collections, req.body.token, 'email_verification');
+      const user = verification && (await collections.users.findOne({ id: verification.user_id }));
+
+      if (!verification || !user) {
+        res.status(400).json({ detail: 'Invalid or expired verification token' });
+        return;
+      }
+
+      if (verification.email === user.email) {
+        await collections.users.updateOne({ id: user.id }, { $set: { email_verified: true } });
+      } else if (verification.email === user.pending_email) {
+        // The address may have been taken since the change was requested
+        const existing = await collections.users.findOne({ email: user.pending_email, id: { $ne: user.id } });
+        if (existing) {
+          await collections.users.updateOne({ id: user.id }, { $set: { pending_email: null } });
+          res.status(400).json({ detail: 'Email already in use' });
+          return;
+        }
+
+        await collections.users.updateOne(
+          { id: user.id },
+          { $set: { email: user.pending_email, email_verified: true, pending_email: null } }
+        );
+      } else {
+        // The address was changed again after this link was sent
+        res.status(400).json({ detail: 'Invalid or expired verification token' });
+        return;
+      }
+
+      const updatedUser = await collections.users.findOne({ id: user.id });
+      res.json(toUserResponse(updatedUser!));
+    } catch (error) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Send the confirmation link again (pending address first, then the current one)
+  app.post('/api/auth/resend-verification', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const email = user.pending_email || (!user.email_verified ? user.email : null);
+
+      if (!email) {
+        res.status(400).json({ detail: 'Email already verified' });
+        return;
+      }
+
+      await sendVerificationEmail(user, email);
+      res.json({ message: 'Verification email sent' });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // List the devices signed in to the account
+  app.get('/api/auth/sessions', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessions = await listActiveSessions(collections, req.user!.id);
+      res.json(sessions.map((session) => toSessionResponse(session, req.sessionId)));
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Sign a device out remotely
+  app.delete(
+    '/api/auth/sessions/:sessionId',
+    authMiddleware,
+    validate({ params: sessionIdParams }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const session = await collections.sessions.findOne({
+          id: req.params.sessionId,
+          user_id: req.user!.id,
+          revoked_at: null,
+        });
+
+        if (!session) {
+          res.status(404).json({ detail: 'Session not found' });
+          return;
+        }
+
+        await revokeSession(collections, session.id);
+        res.json({ message: 'Session revoked' });
+      } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
   // Get current user
   app.get('/api/auth/me', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
     res.json(toUserResponse(req.user!));
   });
 
   // Update profile
-  app.put('/api/auth/profile', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  app.put('/api/auth/profile', authMiddleware, validate({ body: profileUpdateSchema }), async (req: AuthenticatedRequest, res: Response) => {
     try {
       const data: UserUpdate = req.body;
       const updateData: Record<string, any> = {};
@@ -150,7 +527,9 @@ async function startServer() {
         updateData.name = data.name;
       }
 
-      if (data.email) {
+      // A new email only replaces the current one once it has been confirmed
+      let newEmail: string | null = null;
+      if (data.email && data.email.toLowerCase() !== req.user!.email) {
         // Check if email already used by another user
         const existing = await collections.users.findOne({
           email: data.email.toLowerCase(),
@@ -161,7 +540,11 @@ async function startServer() {
           res.status(400).json({ detail: 'Email already in use' });
           return;
         }
-        updateData.email = data.email.toLowerCase();
+        newEmail = data.email.toLowerCase();
+        updateData.pending_email = newEmail;
+      } else if (data.email && req.user!.pending_email) {
+        // Back to the current address: cancel the pending change
+        updateData.pending_email = null;
       }
 
       if (data.photo !== undefined) {
@@ -176,6 +559,9 @@ async function startServer() {
       }
 
       const updatedUser = await collections.users.findOne({ id: req.user!.id });
+      if (newEmail) {
+        await sendVerificationEmail(updatedUser!, newEmail);
+      }
       res.json(toUserResponse(updatedUser!));
     } catch (error) {
       console.error('Update profile error:', error);
@@ -183,135 +569,579 @@ async function startServer() {
     }
   });
 
+  // ==================== TWO-FACTOR AUTH ROUTES ====================
+
+  // Complete a login with an authenticator or recovery code
+  app.post(
+    '/api/auth/2fa/verify',
+    rateLimit(RATE_LIMITS.twoFactorVerify),
+    validate({ body: twoFactorVerifySchema }),
+    async (req: Request, res: Response) => {
+      try {
+        const challenge = verifyTwoFactorChallenge(req.body.challenge_token);
+        const user = challenge && (await collections.users.findOne({ id: challenge.user_id }));
+
+        if (!challenge || !user) {
+          res.status(401).json({ detail: 'Invalid or expired challenge' });
+          return;
+        }
+
+        await loginLockout.check(user.email);
+        if (!(await verifySecondFactor(collections, user, req.body.code))) {
+          await loginLockout.recordFailure(user.email);
+          res.status(401).json({ detail: 'Invalid code' });
+          return;
+        }
+        await loginLockout.clear(user.email);
+
+        const tokens = await issueTokens(collections, user.id, {
+          device_name: challenge.device_name,
+          platform: challenge.platform,
+          ip: req.ip || null,
+        });
+
+        const response: TokenResponse = {
+          ...tokens,
+          token_type: 'bearer',
+          user: toUserResponse(user),
+        };
+
+        res.json(response);
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          sendTooManyRequests(res, error.retryAfterMs, error.message);
+          return;
+        }
+        console.error('2FA verify error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Generate a secret to add to an authenticator app
+  app.post('/api/auth/2fa/setup', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (req.user!.two_factor_enabled) {
+        res.status(400).json({ detail: 'Two-factor authentication is already enabled' });
+        return;
+      }
+
+      res.json(await startTwoFactorSetup(collections, req.user!));
+    } catch (error) {
+      console.error('2FA setup error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Confirm the secret with a first code; returns the recovery codes
+  app.post(
+    '/api/auth/2fa/enable',
+    authMiddleware,
+    validate({ body: twoFactorEnableSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        if (req.user!.two_factor_enabled) {
+          res.status(400).json({ detail: 'Two-factor authentication is already enabled' });
+          return;
+        }
+        if (!req.user!.two_factor_pending_secret) {
+          res.status(400).json({ detail: 'Two-factor setup has not been started' });
+          return;
+        }
+
+        const recoveryCodes = await enableTwoFactor(collections, req.user!, req.body.code);
+        if (!recoveryCodes) {
+          res.status(400).json({ detail: 'Invalid code' });
+          return;
+        }
+
+        res.json({ recovery_codes: recoveryCodes });
+      } catch (error) {
+        console.error('2FA enable error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Turn two-factor auth off (password and a current code required)
+  app.post(
+    '/api/auth/2fa/disable',
+    authMiddleware,
+    rateLimit(RATE_LIMITS.changePassword),
+    validate({ body: twoFactorDisableSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const user = req.user!;
+        if (!user.two_factor_enabled) {
+          res.status(400).json({ detail: 'Two-factor authentication is not enabled' });
+          return;
+        }
+
+        const passwordCheck = await verifyPassword(req.body.password, user.password_hash);
+        if (!passwordCheck.valid) {
+          res.status(400).json({ detail: 'Current password is incorrect' });
+          return;
+        }
+        if (!(await verifySecondFactor(collections, user, req.body.code))) {
+          res.status(400).json({ detail: 'Invalid code' });
+          return;
+        }
+
+        await disableTwoFactor(collections, user.id);
+        res.json({ message: 'Two-factor authentication disabled' });
+      } catch (error) {
+        console.error('2FA disable error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
   // ==================== ACTIVITY ROUTES ====================
 
   // Create activity
-  app.post('/api/activities', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  app.post('/api/activities', authMiddleware, rateLimit(RATE_LIMITS.activityCreate), validate({ body: activityCreateSchema }), async (req: AuthenticatedRequest, res: Response) => {
     try {
       const activityData: ActivityCreate = req.body;
-      const activityId = uuidv4();
-
-      const activityDoc: Activity = {
-        id: activityId,
-        user_id: req.user!.id,
+      const activityDoc = await createActivity(collections, req.user!.id, {
         activity_type: activityData.activity_type,
         gps_points: activityData.gps_points,
-        distance: activityData.distance,
-        duration: activityData.duration,
-        avg_speed: activityData.avg_speed,
-        start_time: new Date(activityData.start_time),
-        end_time: new Date(activityData.end_time),
-        created_at: new Date(),
-      };
-
-      await collections.activities.insertOne(activityDoc as any);
+        title: activityData.title,
+        description: activityData.description,
+        timezone: activityData.timezone,
+        client_metrics: {
+          distance: activityData.distance,
+          duration: activityData.duration,
+          avg_speed: activityData.avg_speed,
+          start_time: new Date(activityData.start_time),
+          end_time: new Date(activityData.end_time),
+        },
+      });
       res.json(activityDoc);
     } catch (error) {
+      if (error instanceof ActivityRejectedError) {
+        res.status(400).json({ detail: error.message });
+        return;
+      }
       console.error('Create activity error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
-  // Get activities
-  app.get('/api/activities', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  // Import activity from a GPX, TCX or FIT file
+  app.post(
+    '/api/activities/import',
+    authMiddleware,
+    rateLimit(RATE_LIMITS.activityImport),
+    validate({ query: activityImportQuery }),
+    express.raw({ type: () => true, limit: '50mb' }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { format, activity_type, timezone } = req.query as {
+          format?: 'gpx' | 'tcx' | 'fit';
+          activity_type?: string;
+          timezone?: string;
+        };
+
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          res.status(400).json({ detail: 'Expected a GPX, TCX or FIT file as request body' });
+          return;
+        }
+
+        const track =
+          format === 'fit' || (format === undefined && isFitFile(req.body))
+            ? parseFitFile(req.body)
+            : parseTrackFile(req.body.toString('utf8'), format);
+
+        const activityDoc = await createActivity(
+          collections,
+          req.user!.id,
+          {
+            activity_type: activity_type || track.activity_type || 'running',
+            gps_points: track.points,
+            laps: track.laps,
+            timezone,
+          },
+          track.format
+        );
+        res.json(activityDoc);
+      } catch (error) {
+        if (error instanceof ImportError) {
+          res.status(400).json({ detail: error.message, line: error.line, element: error.element });
+          return;
+        }
+        if (error instanceof ActivityRejectedError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Import activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Merge activities into one, the originals are kept hidden until reverted
+  app.post(
+    '/api/activities/merge',
+    authMiddleware,
+    validate({ body: activityMergeSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const activity = await mergeActivities(collections, req.user!.id, req.body.activity_ids);
+        res.json(activity);
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof SplitMergeError || error instanceof ActivityRejectedError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Merge activities error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Activities in the trash, most recently deleted first
+  app.get('/api/activities/trash', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const skip = parseInt(req.query.skip as string) || 0;
+      res.json(await listTrash(collections, req.user!.id));
+    } catch (error) {
+      console.error('Get trash error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
 
-      const activities = await collections.activities
-        .find({ user_id: req.user!.id })
-        .sort({ start_time: -1 })
-        .skip(skip)
-        .limit(limit)
-        .toArray();
+  // Move several activities to the trash, returning the ids moved
+  app.post('/api/activities/trash', authMiddleware, validate({ body: activityIdsSchema }), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const activityIds = await trashActivities(collections, req.user!.id, req.body.activity_ids);
+      res.json({ activity_ids: activityIds });
+    } catch (error) {
+      console.error('Bulk delete activities error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
 
-      res.json(activities);
+  // Restore several activities from the trash, returning the ids restored
+  app.post('/api/activities/restore', authMiddleware, validate({ body: activityIdsSchema }), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const activityIds = await restoreActivities(collections, req.user!.id, req.body.activity_ids);
+      res.json({ activity_ids: activityIds });
     } catch (error) {
+      console.error('Bulk restore activities error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Get activities, the cursor of the next page is sent in X-Next-Cursor
+  app.get('/api/activities', authMiddleware, validate({ query: activityListQuery }), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const options = req.query as unknown as ActivityListOptions;
+      const page = await listActivities(collections, req.user!.id, options);
+
+      if (page.next_cursor) {
+        res.setHeader('X-Next-Cursor', page.next_cursor);
+      }
+      res.json(page.activities);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({ detail: error.message });
+        return;
+      }
       console.error('Get activities error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
   // Get single activity
-  app.get('/api/activities/:activityId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  app.get('/api/activities/:activityId', authMiddleware, validate({ params: activityIdParams }), async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { activityId } = req.params;
 
-      const activity = await collections.activities.findOne({
-        id: activityId,
-        user_id: req.user!.id,
-      });
+      const activity = await collections.activities.findOne(
+        { id: activityId, user_id: req.user!.id },
+        { projection: DETAIL_PROJECTION }
+      );
 
       if (!activity) {
         res.status(404).json({ detail: 'Activity not found' });
         return;
       }
 
-      res.json(activity);
+      res.json({
+        ...(await withStops(collections, activity)),
+        best_efforts: await activityBestEfforts(collections, activity),
+      });
     } catch (error) {
       console.error('Get activity error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
-  // Delete activity
-  app.delete('/api/activities/:activityId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { activityId } = req.params;
+  // Edit title, description, type, perceived exertion or tags
+  app.patch(
+    '/api/activities/:activityId',
+    authMiddleware,
+    validate({ params: activityIdParams, body: activityUpdateSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const activity = await updateActivity(collections, req.user!.id, req.params.activityId, req.body as ActivityUpdate);
+        res.json({ ...activity, best_efforts: await activityBestEfforts(collections, activity) });
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof ActivityRejectedError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Update activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
 
-      const result = await collections.activities.deleteOne({
-        id: activityId,
-        user_id: req.user!.id,
-      });
+  // Keep part of the track; the original is saved for undo
+  app.post(
+    '/api/activities/:activityId/crop',
+    authMiddleware,
+    validate({ params: activityIdParams, body: activityCropSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const activity = await cropActivity(collections, req.user!.id, req.params.activityId, req.body as CropRange);
+        res.json({ ...activity, best_efforts: await activityBestEfforts(collections, activity) });
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof CropError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Crop activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Undo the crop, restoring the track as recorded
+  app.delete(
+    '/api/activities/:activityId/crop',
+    authMiddleware,
+    validate({ params: activityIdParams }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const activity = await undoCrop(collections, req.user!.id, req.params.activityId);
+        res.json({ ...activity, best_efforts: await activityBestEfforts(collections, activity) });
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof CropError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Undo crop error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Split an activity in two at a timestamp
+  app.post(
+    '/api/activities/:activityId/split',
+    authMiddleware,
+    validate({ params: activityIdParams, body: activitySplitSchema }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const activities = await splitActivity(collections, req.user!.id, req.params.activityId, req.body as SplitOptions);
+        res.json(activities);
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof SplitMergeError || error instanceof ActivityRejectedError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Split activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Undo the split or merge that produced an activity, returning the restored originals
+  app.post(
+    '/api/activities/:activityId/revert',
+    authMiddleware,
+    validate({ params: activityIdParams }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        res.json(await revertActivity(collections, req.user!.id, req.params.activityId));
+      } catch (error) {
+        if (error instanceof ActivityNotFoundError) {
+          res.status(404).json({ detail: error.message });
+          return;
+        }
+        if (error instanceof SplitMergeError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Revert activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Restore an activity from the trash
+  app.post(
+    '/api/activities/:activityId/restore',
+    authMiddleware,
+    validate({ params: activityIdParams }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const restored = await restoreActivities(collections, req.user!.id, [req.params.activityId]);
+
+        if (restored.length === 0) {
+          res.status(404).json({ detail: 'Activity not found in trash' });
+          return;
+        }
+
+        res.json({ message: 'Activity restored' });
+      } catch (error) {
+        console.error('Restore activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Splits per kilometer or mile, and device laps
+  app.get(
+    '/api/activities/:activityId/splits',
+    authMiddleware,
+    validate({ params: activityIdParams, query: activitySplitsQuery }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { activityId } = req.params;
+        const { unit } = req.query as { unit: SplitUnit };
+
+        const activity = await collections.activities.findOne({
+          id: activityId,
+          user_id: req.user!.id,
+        });
+
+        if (!activity) {
+          res.status(404).json({ detail: 'Activity not found' });
+          return;
+        }
+
+        const response: SplitsResponse = {
+          unit,
+          splits: computeSplits(activity.gps_points, unit),
+          laps: activity.laps ? computeLapSplits(activity.gps_points, activity.laps, unit) : [],
+        };
+        res.json(response);
+      } catch (error) {
+        console.error('Get splits error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Export activity
+  app.get(
+    '/api/activities/:activityId/export',
+    authMiddleware,
+    validate({ params: activityIdParams, query: activityExportQuery }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { activityId } = req.params;
+
+        const activity = await collections.activities.findOne({
+          id: activityId,
+          user_id: req.user!.id,
+        });
+
+        if (!activity) {
+          res.status(404).json({ detail: 'Activity not found' });
+          return;
+        }
+
+        res.setHeader('Content-Type', 'application/gpx+xml; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${gpxFileName(activity)}"`);
+        res.send(activityToGpx(activity));
+      } catch (error) {
+        console.error('Export activity error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
+  // Move activity to the trash
+  app.delete('/api/activities/:activityId', authMiddleware, validate({ params: activityIdParams }), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const trashed = await trashActivities(collections, req.user!.id, [req.params.activityId]);
 
-      if (result.deletedCount === 0) {
+      if (trashed.length === 0) {
         res.status(404).json({ detail: 'Activity not found' });
         return;
       }
 
-      res.json({ message: 'Activity deleted' });
+      res.json({ message: 'Activity moved to trash' });
     } catch (error) {
       console.error('Delete activity error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
+  // ==================== STATS ROUTES ====================
+
   // Get stats
   app.get('/api/stats', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const activities = await collections.activities
-        .find({ user_id: req.user!.id })
-        .toArray();
-
-      if (activities.length === 0) {
-        const emptyStats: GlobalStats = {
-          total_activities: 0,
-          total_distance: 0,
-          total_duration: 0,
-          avg_speed: 0,
-        };
-        res.json(emptyStats);
-        return;
-      }
-
-      const totalDistance = activities.reduce((sum, act) => sum + act.distance, 0) / 1000;
-      const totalDuration = activities.reduce((sum, act) => sum + act.duration, 0);
-      const avgSpeed = totalDuration > 0 ? totalDistance / (totalDuration / 3600) : 0;
-
-      const stats: GlobalStats = {
-        total_activities: activities.length,
-        total_distance: Math.round(totalDistance * 100) / 100,
-        total_duration: totalDuration,
-        avg_speed: Math.round(avgSpeed * 100) / 100,
-      };
-
-      res.json(stats);
+      res.json(await computeGlobalStats(collections, req.user!.id));
     } catch (error) {
       console.error('Get stats error:', error);
       res.status(500).json({ detail: 'Internal server error' });
     }
   });
 
+  // Fastest effort of every standard distance
+  app.get('/api/records', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await listPersonalRecords(collections, req.user!.id));
+    } catch (error) {
+      console.error('Get records error:', error);
+      res.status(500).json({ detail: 'Internal server error' });
+    }
+  });
+
+  // Totals per week, month or year
+  app.get(
+    '/api/stats/periods',
+    authMiddleware,
+    validate({ query: statsPeriodsQuery }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const options = req.query as unknown as PeriodStatsOptions;
+        res.json(await computePeriodStats(collections, req.user!.id, options));
+      } catch (error) {
+        if (error instanceof StatsRangeError) {
+          res.status(400).json({ detail: error.message });
+          return;
+        }
+        console.error('Get period stats error:', error);
+        res.status(500).json({ detail: 'Internal server error' });
+      }
+    }
+  );
+
   // ==================== HEALTH CHECK ====================
 
   app.get('/api/health', (req: Request, res: Response) => {
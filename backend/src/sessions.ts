@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from './database';
+import { Session, SessionResponse } from './types';
+
+// Sessions expire when their refresh token is not used for this long
+export const SESSION_EXPIRE_DAYS = 30;
+
+// last_seen_at is only written when older than this, to avoid a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+export interface SessionDevice {
+  device_name: string | null;
+  platform: string | null;
+  ip: string | null;
+}
+
+export function sessionExpiry(from: Date): Date {
+  return new Date(from.getTime() + SESSION_EXPIRE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// One session per login; every refresh token rotated from that login belongs to it
+export async function createSession(
+  collections: Collections,
+  userId: string,
+  device: SessionDevice
+): Promise<Session> {
+  const now = new Date();
+  const sessionDoc: Session = {
+    id: uuidv4(),
+    user_id: userId,
+    device_name: device.device_name,
+    platform: device.platform,
+    ip: device.ip,
+    created_at: now,
+    last_seen_at: now,
+    expires_at: sessionExpiry(now),
+    revoked_at: null,
+  };
+
+  await collections.sessions.insertOne(sessionDoc as any);
+  return sessionDoc;
+}
+
+// Active (not revoked, not expired) session of a user, or null
+export async function findActiveSession(
+  collections: Collections,
+  userId: string,
+  sessionId: string
+): Promise<Session | null> {
+  return collections.sessions.findOne({
+    id: sessionId,
+    user_id: userId,
+    revoked_at: null,
+    expires_at: { $gt: new Date() },
+  });
+}
+
+export async function listActiveSessions(collections: Collections, userId: string): Promise<Session[]> {
+  return collections.sessions
+    .find({ user_id: userId, revoked_at: null, expires_at: { $gt: new Date() } })
+    .sort({ last_seen_at: -1 })
+    .toArray();
+}
+
+export async function touchSession(collections: Collections, session: Session, ip: string | null): Promise<void> {
+  const now = new Date();
+  if (now.getTime() - session.last_seen_at.getTime() < LAST_SEEN_RESOLUTION_MS && ip === session.ip) {
+    return;
+  }
+  await collections.sessions.updateOne({ id: session.id }, { $set: { last_seen_at: now, ip } });
+}
+
+// Sign a session out: access tokens are rejected by the auth middleware
+// and its refresh tokens can no longer be exchanged
+export async function revokeSession(collections: Collections, sessionId: string): Promise<void> {
+  const now = new Date();
+  await collections.sessions.updateOne({ id: sessionId, revoked_at: null }, { $set: { revoked_at: now } });
+  await collections.refreshTokens.updateMany(
+    { session_id: sessionId, revoked_at: null },
+    { $set: { revoked_at: now } }
+  );
+}
+
+// Sign out every device of a user, optionally keeping the current session
+export async function revokeUserSessions(
+  collections: Collections,
+  userId: string,
+  exceptSessionId?: string
+): Promise<void> {
+  const sessions = await collections.sessions
+    .find({ user_id: userId, revoked_at: null, ...(exceptSessionId ? { id: { $ne: exceptSessionId } } : {}) })
+    .toArray();
+
+  for (const session of sessions) {
+    await revokeSession(collections, session.id);
+  }
+}
+
+export function toSessionResponse(session: Session, currentSessionId: string | undefined): SessionResponse {
+  return {
+    id: session.id,
+    device_name: session.device_name,
+    platform: session.platform,
+    ip: session.ip,
+    created_at: session.created_at,
+    last_seen_at: session.last_seen_at,
+    current: session.id === currentSessionId,
+  };
+}
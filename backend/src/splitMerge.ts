@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from './database';
+import {
+  ActivityNotFoundError,
+  ActivityRejectedError,
+  defaultActivityTitle,
+  DETAIL_PROJECTION,
+  trackFields,
+  visibleActivities,
+} from './activities';
+import { lapsWithin } from './crop';
+import { findImplausibility } from './metrics';
+import { saveBestEfforts } from './records';
+import { Activity, ActivityLap, GPSPoint } from './types';
+
+export interface SplitOptions {
+  timestamp: Date;
+  // Type of the second part, the original type otherwise
+  activity_type?: string;
+  // Used for the title of the second part
+  timezone?: string;
+}
+
+export class SplitMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SplitMergeError';
+  }
+}
+
+function timeOf(point: GPSPoint): number {
+  return new Date(point.timestamp).getTime();
+}
+
+// New activity built from a track, keeping the owner and source of `base`
+function deriveActivity(
+  base: Activity,
+  originals: Activity[],
+  points: GPSPoint[],
+  laps: ActivityLap[] | undefined,
+  fields: Pick<Activity, 'activity_type' | 'title' | 'description' | 'perceived_exertion' | 'tags'>
+): Activity {
+  const track = trackFields(points);
+  const implausibility = findImplausibility(points, fields.activity_type, track);
+  if (implausibility) {
+    throw new ActivityRejectedError(`Implausible track: ${implausibility}`);
+  }
+
+  return {
+    id: uuidv4(),
+    user_id: base.user_id,
+    ...fields,
+    gps_points: points,
+    ...track,
+    ...(laps && laps.length > 0 ? { laps } : {}),
+    ...(base.source ? { source: base.source } : {}),
+    derived_from: originals.map((activity) => activity.id),
+    created_at: new Date(),
+  };
+}
+
+// Store the new activities and hide the originals. The originals keep their
+// track and metadata so that `revertActivity` can bring them back; their best
+// efforts move to the new activities so records are not counted twice.
+async function replaceActivities(collections: Collections, originals: Activity[], results: Activity[]): Promise<void> {
+  const originalIds = originals.map((activity) => activity.id);
+
+  await collections.activities.insertMany(results as any[]);
+  await collections.activities.updateMany(
+    { id: { $in: originalIds } },
+    { $set: { replaced_by: results.map((activity) => activity.id), replaced_at: new Date() } }
+  );
+  await collections.bestEfforts.deleteMany({ activity_id: { $in: originalIds } });
+  for (const activity of results) {
+    await saveBestEfforts(collections, activity);
+  }
+}
+
+// Cut an activity in two at a timestamp: points before it form the first part,
+// the others the second. The first part keeps the title and notes.
+export async function splitActivity(
+  collections: Collections,
+  userId: string,
+  activityId: string,
+  options: SplitOptions
+): Promise<Activity[]> {
+  const activity = await collections.activities.findOne({ ...visibleActivities(userId), id: activityId });
+  if (!activity) {
+    throw new ActivityNotFoundError();
+  }
+
+  const splitMs = options.timestamp.getTime();
+  const index = activity.gps_points.findIndex((point) => timeOf(point) >= splitMs);
+  if (index < 2 || activity.gps_points.length - index < 2) {
+    throw new SplitMergeError('Each part must keep at least 2 GPS points');
+  }
+
+  const firstPoints = activity.gps_points.slice(0, index);
+  const secondPoints = activity.gps_points.slice(index);
+  const secondType = options.activity_type || activity.activity_type;
+
+  const first = deriveActivity(
+    activity,
+    [activity],
+    firstPoints,
+    activity.laps && lapsWithin(activity.laps, firstPoints),
+    {
+      activity_type: activity.activity_type,
+      title: activity.title || defaultActivityTitle(activity.activity_type, firstPoints[0].timestamp, options.timezone),
+      description: activity.description ?? null,
+      perceived_exertion: activity.perceived_exertion ?? null,
+      tags: activity.tags || [],
+    }
+  );
+  const second = deriveActivity(
+    activity,
+    [activity],
+    secondPoints,
+    activity.laps && lapsWithin(activity.laps, secondPoints),
+    {
+      activity_type: secondType,
+      title: defaultActivityTitle(secondType, secondPoints[0].timestamp, options.timezone),
+      description: null,
+      perceived_exertion: null,
+      tags: [],
+    }
+  );
+
+  await replaceActivities(collections, [activity], [first, second]);
+  return [first, second];
+}
+
+// Join activities given in chronological order into one. They must be of the
+// same type and must not overlap; the gaps between them count as stopped time.
+export async function mergeActivities(collections: Collections, userId: string, activityIds: string[]): Promise<Activity> {
+  if (new Set(activityIds).size !== activityIds.length) {
+    throw new SplitMergeError('An activity cannot be merged with itself');
+  }
+
+  const found = await collections.activities.find({ ...visibleActivities(userId), id: { $in: activityIds } }).toArray();
+  if (found.length !== activityIds.length) {
+    throw new ActivityNotFoundError();
+  }
+  const byId = new Map(found.map((activity) => [activity.id, activity]));
+  const activities = activityIds.map((id) => byId.get(id)!);
+
+  const activityType = activities[0].activity_type;
+  if (activities.some((activity) => activity.activity_type !== activityType)) {
+    throw new SplitMergeError('Only activities of the same type can be merged');
+  }
+  for (let i = 1; i < activities.length; i++) {
+    if (new Date(activities[i].start_time).getTime() < new Date(activities[i - 1].end_time).getTime()) {
+      throw new SplitMergeError('Activities must be in chronological order and must not overlap');
+    }
+  }
+
+  const first = activities[0];
+  const merged = deriveActivity(
+    first,
+    activities,
+    activities.flatMap((activity) => activity.gps_points),
+    activities.flatMap((activity) => activity.laps || []),
+    {
+      activity_type: activityType,
+      title: first.title || defaultActivityTitle(activityType, first.start_time),
+      description: first.description ?? null,
+      perceived_exertion: first.perceived_exertion ?? null,
+      tags: [...new Set(activities.flatMap((activity) => activity.tags || []))],
+    }
+  );
+
+  await replaceActivities(collections, activities, [merged]);
+  return merged;
+}
+
+// Undo the split or merge that produced an activity: its originals come back
+// and every activity produced by the same operation is removed.
+export async function revertActivity(collections: Collections, userId: string, activityId: string): Promise<Activity[]> {
+  const activity = await collections.activities.findOne({ ...visibleActivities(userId), id: activityId });
+  if (!activity) {
+    throw new ActivityNotFoundError();
+  }
+  if (!activity.derived_from || activity.derived_from.length === 0) {
+    throw new SplitMergeError('Activity was not split or merged');
+  }
+
+  const originals = await collections.activities
+    .find({ user_id: userId, id: { $in: activity.derived_from }, replaced_by: activity.id })
+    .toArray();
+  if (originals.length !== activity.derived_from.length) {
+    throw new SplitMergeError('Original activities are no longer available');
+  }
+
+  // All parts of a split must still be there to be folded back
+  const resultIds = [...new Set(originals.flatMap((original) => original.replaced_by || []))];
+  const visibleResults = await collections.activities.countDocuments({
+    ...visibleActivities(userId),
+    id: { $in: resultIds },
+  });
+  if (visibleResults !== resultIds.length) {
+    throw new SplitMergeError('Revert the later split or merge of these activities first');
+  }
+
+  await collections.activities.deleteMany({ id: { $in: resultIds } });
+  await collections.bestEfforts.deleteMany({ activity_id: { $in: resultIds } });
+  await collections.activities.updateMany(
+    { id: { $in: activity.derived_from } },
+    { $unset: { replaced_by: '', replaced_at: '' } }
+  );
+
+  const restored = await collections.activities
+    .find({ id: { $in: activity.derived_from } })
+    .project<Activity>(DETAIL_PROJECTION)
+    .sort({ start_time: 1 })
+    .toArray();
+  for (const original of restored) {
+    await saveBestEfforts(collections, original);
+  }
+  return restored;
+}
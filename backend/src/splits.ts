@@ -0,0 +1,110 @@
+import { pointDistance } from './metrics';
+import { ActivityLap, GPSPoint, Split, SplitUnit } from './types';
+
+export const SPLIT_UNIT_METERS: Record<SplitUnit, number> = { km: 1000, mi: 1609.344 };
+
+// A trailing split shorter than this (m) is GPS noise rather than a split
+const MIN_LAST_SPLIT = 10;
+
+// Cumulative distance, time and altitude along a time-ordered track
+interface Track {
+  distances: number[];
+  times: number[];
+  altitudes: (number | null)[];
+}
+
+// Point on the track between points[index] and points[index + 1]
+interface TrackPosition {
+  index: number;
+  fraction: number;
+}
+
+function buildTrack(points: GPSPoint[]): Track {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + pointDistance(points[i - 1], points[i]));
+  }
+  return {
+    distances,
+    times: points.map((point) => new Date(point.timestamp).getTime()),
+    altitudes: points.map((point) => point.altitude),
+  };
+}
+
+// First position where a monotonic series reaches a value
+function positionOf(values: number[], value: number): TrackPosition {
+  if (value <= values[0]) return { index: 0, fraction: 0 };
+  const last = values.length - 1;
+  if (value >= values[last]) return { index: Math.max(0, last - 1), fraction: last > 0 ? 1 : 0 };
+
+  let index = 0;
+  while (values[index + 1] < value) index++;
+  const span = values[index + 1] - values[index];
+  return { index, fraction: span > 0 ? (value - values[index]) / span : 0 };
+}
+
+function valueAt(values: number[], position: TrackPosition): number {
+  const next = values[Math.min(position.index + 1, values.length - 1)];
+  return values[position.index] + position.fraction * (next - values[position.index]);
+}
+
+function altitudeAt(altitudes: (number | null)[], position: TrackPosition): number | null {
+  const current = altitudes[position.index];
+  const next = altitudes[Math.min(position.index + 1, altitudes.length - 1)];
+  if (current === null || next === null) return null;
+  return current + position.fraction * (next - current);
+}
+
+function summarize(track: Track, start: TrackPosition, end: TrackPosition, index: number, unitMeters: number): Split {
+  const distance = valueAt(track.distances, end) - valueAt(track.distances, start);
+  const elapsed = (valueAt(track.times, end) - valueAt(track.times, start)) / 1000;
+  const startAltitude = altitudeAt(track.altitudes, start);
+  const endAltitude = altitudeAt(track.altitudes, end);
+
+  return {
+    index,
+    distance: Math.round(distance * 10) / 10,
+    elapsed_time: Math.round(elapsed),
+    pace: distance > 0 ? Math.round((elapsed / distance) * unitMeters) : 0,
+    avg_speed: elapsed > 0 ? Math.round((distance / 1000 / (elapsed / 3600)) * 100) / 100 : 0,
+    elevation_delta:
+      startAltitude !== null && endAltitude !== null ? Math.round((endAltitude - startAltitude) * 10) / 10 : null,
+  };
+}
+
+// One split per full unit of distance plus the remainder. Boundaries are
+// interpolated between GPS points so every full split is exactly one unit.
+export function computeSplits(points: GPSPoint[], unit: SplitUnit): Split[] {
+  if (points.length < 2) return [];
+
+  const unitMeters = SPLIT_UNIT_METERS[unit];
+  const track = buildTrack(points);
+  const total = track.distances[track.distances.length - 1];
+
+  const splits: Split[] = [];
+  let start = positionOf(track.distances, 0);
+  for (let boundary = unitMeters; boundary - unitMeters < total; boundary += unitMeters) {
+    if (boundary > total && total - (boundary - unitMeters) < MIN_LAST_SPLIT) break;
+    const end = positionOf(track.distances, Math.min(boundary, total));
+    splits.push(summarize(track, start, end, splits.length + 1, unitMeters));
+    start = end;
+  }
+  return splits;
+}
+
+// Same breakdown for the laps recorded by the device (imported files)
+export function computeLapSplits(points: GPSPoint[], laps: ActivityLap[], unit: SplitUnit): Split[] {
+  if (points.length < 2) return [];
+
+  const unitMeters = SPLIT_UNIT_METERS[unit];
+  const track = buildTrack(points);
+  return laps.map((lap, i) =>
+    summarize(
+      track,
+      positionOf(track.times, new Date(lap.start_time).getTime()),
+      positionOf(track.times, new Date(lap.end_time).getTime()),
+      i + 1,
+      unitMeters
+    )
+  );
+}
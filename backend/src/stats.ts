@@ -0,0 +1,249 @@
+import { Collections } from './database';
+import { visibleActivities } from './activities';
+import {
+  ActivityHighlight,
+  ActivityTypeStats,
+  GlobalStats,
+  PeriodGranularity,
+  PeriodStats,
+  PeriodStatsResponse,
+} from './types';
+
+// Default range of /api/stats/periods when `from` is omitted, in buckets
+const DEFAULT_BUCKETS: Record<PeriodGranularity, number> = { week: 12, month: 12, year: 5 };
+const MAX_BUCKETS = 520;
+
+export class StatsRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatsRangeError';
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// km/h from meters and seconds
+function averageSpeed(distance: number, duration: number): number {
+  return duration > 0 ? round2(distance / 1000 / (duration / 3600)) : 0;
+}
+
+// Sums shared by every grouping; elevation is missing on older activities, which $sum skips.
+// Average speeds are over the moving time, like those of single activities; activities
+// saved before it was computed count their whole duration until their stops are detected.
+interface Totals {
+  count: number;
+  distance: number;
+  duration: number;
+  moving_time: number;
+  elevation_gain: number;
+  elevation_loss: number;
+}
+
+const TOTALS_GROUP = {
+  count: { $sum: 1 },
+  distance: { $sum: '$distance' },
+  duration: { $sum: '$duration' },
+  moving_time: { $sum: { $ifNull: ['$moving_time', '$duration'] } },
+  elevation_gain: { $sum: '$elevation_gain' },
+  elevation_loss: { $sum: '$elevation_loss' },
+};
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Highlight as projected from the activity document
+type HighlightFields = Omit<ActivityHighlight, 'activity_id'> & { id: string };
+
+interface TypeTotals extends Totals {
+  _id: string;
+  longest: HighlightFields;
+  fastest: HighlightFields;
+}
+
+function toHighlight({ id, start_time, distance, duration, avg_speed }: HighlightFields): ActivityHighlight {
+  return { activity_id: id, start_time, distance: round2(distance / 1000), duration, avg_speed: round2(avg_speed) };
+}
+
+export async function computeGlobalStats(collections: Collections, userId: string): Promise<GlobalStats> {
+  const highlight = { id: '$id', start_time: '$start_time', distance: '$distance', duration: '$duration', avg_speed: '$avg_speed' };
+  const types = await collections.activities
+    .aggregate<TypeTotals>([
+      { $match: visibleActivities(userId) },
+      {
+        $group: {
+          _id: '$activity_type',
+          ...TOTALS_GROUP,
+          longest: { $top: { sortBy: { distance: -1 }, output: highlight } },
+          fastest: { $top: { sortBy: { avg_speed: -1 }, output: highlight } },
+        },
+      },
+    ])
+    .toArray();
+
+  const byType: Record<string, ActivityTypeStats> = {};
+  for (const totals of types) {
+    byType[totals._id] = {
+      total_activities: totals.count,
+      total_distance: round2(totals.distance / 1000),
+      total_duration: totals.duration,
+      total_elevation_gain: round1(totals.elevation_gain),
+      total_elevation_loss: round1(totals.elevation_loss),
+      avg_speed: averageSpeed(totals.distance, totals.moving_time),
+      avg_distance: round2(totals.distance / totals.count / 1000),
+      avg_duration: Math.round(totals.duration / totals.count),
+      longest: toHighlight(totals.longest),
+      fastest: toHighlight(totals.fastest),
+    };
+  }
+
+  const sum = (field: keyof Totals) => types.reduce((total, totals) => total + totals[field], 0);
+  const distance = sum('distance');
+  const duration = sum('duration');
+  const movingTime = sum('moving_time');
+  return {
+    total_activities: sum('count'),
+    total_distance: round2(distance / 1000),
+    total_duration: duration,
+    total_elevation_gain: round1(sum('elevation_gain')),
+    total_elevation_loss: round1(sum('elevation_loss')),
+    avg_speed: averageSpeed(distance, movingTime),
+    by_type: byType,
+  };
+}
+
+// ==================== CALENDAR IN A TIMEZONE ====================
+
+// A local calendar day, months are 1-based
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+function localDateOf(date: Date, timezone: string): LocalDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+// Offset of a timezone from UTC at an instant, in ms
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Instant of local midnight of a day. The offset is looked up twice so that
+// days starting right after a DST change resolve to the right instant.
+function startOfLocalDay(date: LocalDate, timezone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day);
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  return new Date(wallClock - timezoneOffset(guess, timezone));
+}
+
+// Normalizes overflowing days and months (e.g. month 13)
+function addToLocalDate(date: LocalDate, granularity: PeriodGranularity, amount: number): LocalDate {
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  if (granularity === 'week') utc.setUTCDate(utc.getUTCDate() + 7 * amount);
+  if (granularity === 'month') utc.setUTCMonth(utc.getUTCMonth() + amount);
+  if (granularity === 'year') utc.setUTCFullYear(utc.getUTCFullYear() + amount);
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+}
+
+// First day of the period containing a day; weeks start on Monday
+function truncateLocalDate(date: LocalDate, granularity: PeriodGranularity): LocalDate {
+  if (granularity === 'year') return { year: date.year, month: 1, day: 1 };
+  if (granularity === 'month') return { year: date.year, month: date.month, day: 1 };
+
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day - ((weekday + 6) % 7)));
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+}
+
+// ==================== PERIOD STATS ====================
+
+export interface PeriodStatsOptions {
+  granularity: PeriodGranularity;
+  timezone: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Totals per week, month or year in the user's timezone. Every period
+// overlapping [from, to) is returned, including the ones without activities.
+export async function computePeriodStats(
+  collections: Collections,
+  userId: string,
+  options: PeriodStatsOptions
+): Promise<PeriodStatsResponse> {
+  const { granularity, timezone } = options;
+  const to = options.to || new Date();
+  const lastPeriod = truncateLocalDate(localDateOf(new Date(to.getTime() - 1), timezone), granularity);
+  const firstPeriod = options.from
+    ? truncateLocalDate(localDateOf(options.from, timezone), granularity)
+    : addToLocalDate(lastPeriod, granularity, 1 - DEFAULT_BUCKETS[granularity]);
+  const from = options.from || startOfLocalDay(firstPeriod, timezone);
+
+  if (from >= to) {
+    throw new StatsRangeError('"from" must be before "to"');
+  }
+
+  const starts: Date[] = [];
+  for (let period = firstPeriod; ; period = addToLocalDate(period, granularity, 1)) {
+    const start = startOfLocalDay(period, timezone);
+    if (start >= to) break;
+    if (starts.length === MAX_BUCKETS) {
+      throw new StatsRangeError(`Range must not span more than ${MAX_BUCKETS} periods`);
+    }
+    starts.push(start);
+  }
+
+  const grouped = await collections.activities
+    .aggregate<Totals & { _id: Date }>([
+      { $match: { ...visibleActivities(userId), start_time: { $gte: from, $lt: to } } },
+      {
+        $group: {
+          _id: { $dateTrunc: { date: '$start_time', unit: granularity, timezone, startOfWeek: 'monday' } },
+          ...TOTALS_GROUP,
+        },
+      },
+    ])
+    .toArray();
+  const totalsByStart = new Map(grouped.map((bucket) => [bucket._id.getTime(), bucket]));
+
+  const buckets: PeriodStats[] = starts.map((start, index) => {
+    const totals = totalsByStart.get(start.getTime());
+    const distance = totals?.distance || 0;
+    const duration = totals?.duration || 0;
+    return {
+      start,
+      end: starts[index + 1] || startOfLocalDay(addToLocalDate(lastPeriod, granularity, 1), timezone),
+      count: totals?.count || 0,
+      distance: round2(distance / 1000),
+      duration,
+      elevation_gain: round1(totals?.elevation_gain || 0),
+      elevation_loss: round1(totals?.elevation_loss || 0),
+      avg_speed: averageSpeed(distance, totals?.moving_time || 0),
+    };
+  });
+
+  return { granularity, timezone, from, to, buckets };
+}
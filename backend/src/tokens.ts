@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from './database';
+import { createSession, revokeSession, sessionExpiry, SessionDevice } from './sessions';
+import { RefreshToken, TwoFactorChallengePayload } from './types';
+
+export const ACCESS_TOKEN_EXPIRE_MINUTES = 15;
+export const TWO_FACTOR_CHALLENGE_EXPIRE_MINUTES = 5;
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export interface IssuedTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+// Read lazily so the value loaded by dotenv at startup is used
+export function getSecretKey(): string {
+  return process.env.JWT_SECRET || 'strive-secret-key-2025';
+}
+
+export function createAccessToken(userId: string, sessionId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const expire = now + ACCESS_TOKEN_EXPIRE_MINUTES * 60;
+
+  return jwt.sign({ sub: userId, sid: sessionId, exp: expire, iat: now }, getSecretKey());
+}
+
+// Issued by login when two-factor auth is on. It carries no session id, so the
+// auth middleware rejects it; it can only be exchanged at /api/auth/2fa/verify.
+export function createTwoFactorChallenge(userId: string, device: SessionDevice): string {
+  const now = Math.floor(Date.now() / 1000);
+  const expire = now + TWO_FACTOR_CHALLENGE_EXPIRE_MINUTES * 60;
+
+  return jwt.sign(
+    {
+      sub: userId,
+      purpose: '2fa',
+      device_name: device.device_name,
+      platform: device.platform,
+      exp: expire,
+      iat: now,
+    },
+    getSecretKey()
+  );
+}
+
+// User id and device of a valid challenge token, or null
+export function verifyTwoFactorChallenge(token: string): { user_id: string; device_name: string | null; platform: string | null } | null {
+  try {
+    const payload = jwt.verify(token, getSecretKey()) as TwoFactorChallengePayload;
+    if (payload.purpose !== '2fa' || !payload.sub) {
+      return null;
+    }
+    return { user_id: payload.sub, device_name: payload.device_name ?? null, platform: payload.platform ?? null };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Refresh tokens are opaque random strings; only their hash is stored
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function createRefreshToken(
+  collections: Collections,
+  userId: string,
+  sessionId: string,
+  expiresAt: Date
+): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+
+  const tokenDoc: RefreshToken = {
+    id: uuidv4(),
+    user_id: userId,
+    session_id: sessionId,
+    token_hash: hashToken(token),
+    created_at: new Date(),
+    expires_at: expiresAt,
+    used_at: null,
+    revoked_at: null,
+  };
+
+  await collections.refreshTokens.insertOne(tokenDoc as any);
+  return token;
+}
+
+// Open a new session and issue its first token pair
+export async function issueTokens(
+  collections: Collections,
+  userId: string,
+  device: SessionDevice
+): Promise<IssuedTokens> {
+  const session = await createSession(collections, userId, device);
+
+  return {
+    access_token: createAccessToken(userId, session.id),
+    refresh_token: await createRefreshToken(collections, userId, session.id, session.expires_at),
+    expires_in: ACCESS_TOKEN_EXPIRE_MINUTES * 60,
+  };
+}
+
+// Exchange a refresh token for a new pair. Each refresh token is single use:
+// presenting one that was already rotated means it leaked, so the whole
+// session is revoked and the legitimate holder has to log in again.
+export async function rotateRefreshToken(
+  collections: Collections,
+  refreshToken: string,
+  ip: string | null
+): Promise<IssuedTokens & { user_id: string }> {
+  const now = new Date();
+  const tokenDoc = await collections.refreshTokens.findOneAndUpdate(
+    { token_hash: hashToken(refreshToken), used_at: null },
+    { $set: { used_at: now } }
+  );
+
+  if (!tokenDoc) {
+    const reused = await collections.refreshTokens.findOne({ token_hash: hashToken(refreshToken) });
+    if (reused) {
+      console.warn(`Refresh token reuse detected for user ${reused.user_id}, revoking session ${reused.session_id}`);
+      await revokeSession(collections, reused.session_id);
+    }
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  if (tokenDoc.revoked_at || tokenDoc.expires_at < now) {
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  // Using the session pushes its expiry back
+  const expiresAt = sessionExpiry(now);
+  await collections.sessions.updateOne(
+    { id: tokenDoc.session_id },
+    { $set: { last_seen_at: now, expires_at: expiresAt, ip } }
+  );
+
+  return {
+    user_id: tokenDoc.user_id,
+    access_token: createAccessToken(tokenDoc.user_id, tokenDoc.session_id),
+    refresh_token: await createRefreshToken(collections, tokenDoc.user_id, tokenDoc.session_id, expiresAt),
+    expires_in: ACCESS_TOKEN_EXPIRE_MINUTES * 60,
+  };
+}
+
+// Revoke the session a refresh token belongs to
+export async function revokeRefreshToken(collections: Collections, refreshToken: string): Promise<boolean> {
+  const tokenDoc = await collections.refreshTokens.findOne({ token_hash: hashToken(refreshToken) });
+  if (!tokenDoc) {
+    return false;
+  }
+
+  await revokeSession(collections, tokenDoc.session_id);
+  return true;
+}
@@ -0,0 +1,248 @@
+import { ActivityLap, GPSPoint } from './types';
+import { decodeFit, FitDecodeError, FitLap } from './fit';
+import { parseXml, XmlElement, XmlParseError, findChild, findChildren, childText } from './xml';
+
+export type ImportFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface ImportedTrack {
+  format: ImportFormat;
+  activity_type: string | null;
+  points: GPSPoint[];
+  laps?: ActivityLap[];
+}
+
+export class ImportError extends Error {
+  line: number | null;
+  element: string | null;
+
+  constructor(message: string, line: number | null = null, element: string | null = null) {
+    super(message);
+    this.name = 'ImportError';
+    this.line = line;
+    this.element = element;
+  }
+}
+
+// Map the free-form sport names used by devices and other apps to our activity types
+export function normalizeActivityType(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const type = value.toLowerCase();
+  if (type.includes('run')) return 'running';
+  if (type.includes('bik') || type.includes('cycl') || type.includes('ride')) return 'cycling';
+  if (type.includes('hik')) return 'hiking';
+  if (type.includes('walk')) return 'walking';
+  return null;
+}
+
+function parseNumber(element: XmlElement, value: string | undefined, label: string): number {
+  const number = value === undefined ? NaN : Number(value);
+  if (value === undefined || value === '' || !Number.isFinite(number)) {
+    throw new ImportError(`Invalid or missing ${label}`, element.line, element.name);
+  }
+  return number;
+}
+
+function parseOptionalNumber(element: XmlElement, value: string | undefined, label: string): number | null {
+  if (value === undefined || value === '') return null;
+  return parseNumber(element, value, label);
+}
+
+function parseTime(element: XmlElement, value: string | undefined): Date {
+  if (!value) {
+    throw new ImportError('Missing timestamp', element.line, element.name);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ImportError(`Invalid timestamp "${value}"`, element.line, element.name);
+  }
+  return date;
+}
+
+function checkCoordinates(element: XmlElement, latitude: number, longitude: number) {
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    throw new ImportError('Coordinates out of range', element.line, element.name);
+  }
+}
+
+// Speed is only available through vendor extensions (Garmin TrackPointExtension / TPX)
+function extensionSpeed(element: XmlElement): number | null {
+  const extensions = findChild(element, 'extensions') || findChild(element, 'Extensions');
+  if (!extensions) return null;
+
+  const queue = [...extensions.children];
+  while (queue.length > 0) {
+    const child = queue.shift()!;
+    if (child.name === 'speed' || child.name === 'Speed') {
+      return parseOptionalNumber(child, child.text.trim(), 'speed');
+    }
+    queue.push(...child.children);
+  }
+  return null;
+}
+
+function parseGpx(root: XmlElement): ImportedTrack {
+  const tracks = findChildren(root, 'trk');
+  if (tracks.length === 0) {
+    throw new ImportError('GPX file contains no track', root.line, root.name);
+  }
+
+  const points: GPSPoint[] = [];
+  for (const track of tracks) {
+    for (const segment of findChildren(track, 'trkseg')) {
+      for (const trkpt of findChildren(segment, 'trkpt')) {
+        const latitude = parseNumber(trkpt, trkpt.attributes.lat, 'lat attribute');
+        const longitude = parseNumber(trkpt, trkpt.attributes.lon, 'lon attribute');
+        checkCoordinates(trkpt, latitude, longitude);
+
+        const ele = findChild(trkpt, 'ele');
+        const time = findChild(trkpt, 'time');
+
+        points.push({
+          latitude,
+          longitude,
+          altitude: ele ? parseOptionalNumber(ele, ele.text.trim(), 'elevation') : null,
+          accuracy: null,
+          speed: extensionSpeed(trkpt),
+          timestamp: parseTime(time || trkpt, time?.text.trim()),
+        });
+      }
+    }
+  }
+
+  return {
+    format: 'gpx',
+    activity_type: normalizeActivityType(childText(tracks[0], 'type')),
+    points,
+  };
+}
+
+function parseTcx(root: XmlElement): ImportedTrack {
+  const activities = findChild(root, 'Activities');
+  const activity = activities && findChild(activities, 'Activity');
+  if (!activity) {
+    throw new ImportError('TCX file contains no activity', root.line, root.name);
+  }
+
+  const points: GPSPoint[] = [];
+  for (const lap of findChildren(activity, 'Lap')) {
+    for (const track of findChildren(lap, 'Track')) {
+      for (const trackpoint of findChildren(track, 'Trackpoint')) {
+        // Trackpoints without a position only carry sensor data (heart rate, cadence)
+        const position = findChild(trackpoint, 'Position');
+        if (!position) continue;
+
+        const latitude = parseNumber(position, childText(position, 'LatitudeDegrees'), 'LatitudeDegrees');
+        const longitude = parseNumber(position, childText(position, 'LongitudeDegrees'), 'LongitudeDegrees');
+        checkCoordinates(position, latitude, longitude);
+
+        const altitude = findChild(trackpoint, 'AltitudeMeters');
+        const time = findChild(trackpoint, 'Time');
+
+        points.push({
+          latitude,
+          longitude,
+          altitude: altitude ? parseOptionalNumber(altitude, altitude.text.trim(), 'AltitudeMeters') : null,
+          accuracy: null,
+          speed: extensionSpeed(trackpoint),
+          timestamp: parseTime(time || trackpoint, time?.text.trim()),
+        });
+      }
+    }
+  }
+
+  return {
+    format: 'tcx',
+    activity_type: normalizeActivityType(activity.attributes.Sport),
+    points,
+  };
+}
+
+// Parse a GPX or TCX document into time-ordered GPS points
+export function parseTrackFile(source: string, format?: 'gpx' | 'tcx'): ImportedTrack {
+  let root: XmlElement;
+  try {
+    root = parseXml(source);
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      throw new ImportError(`Malformed XML: ${error.message}`, error.line);
+    }
+    throw error;
+  }
+
+  const detected: ImportFormat | null =
+    root.name === 'gpx' ? 'gpx' : root.name === 'TrainingCenterDatabase' ? 'tcx' : null;
+
+  if (!detected || (format && format !== detected)) {
+    throw new ImportError(
+      `Unexpected root element <${root.name}> for ${format ? format.toUpperCase() : 'GPX/TCX'} file`,
+      root.line,
+      root.name
+    );
+  }
+
+  return finalizeTrack(detected === 'gpx' ? parseGpx(root) : parseTcx(root));
+}
+
+function toActivityLap(lap: FitLap): ActivityLap | null {
+  if (!lap.start_time) return null;
+
+  const duration = lap.total_elapsed_time ?? lap.total_timer_time ?? 0;
+  const distance = lap.total_distance ?? 0;
+  const movingTime = lap.total_timer_time ?? duration;
+
+  return {
+    start_time: lap.start_time,
+    end_time: lap.timestamp ?? new Date(lap.start_time.getTime() + duration * 1000),
+    distance,
+    duration,
+    avg_speed:
+      lap.avg_speed !== null
+        ? lap.avg_speed * 3.6
+        : movingTime > 0
+          ? distance / 1000 / (movingTime / 3600)
+          : 0,
+  };
+}
+
+// Decode a binary FIT activity file
+export function parseFitFile(buffer: Buffer): ImportedTrack {
+  let fit;
+  try {
+    fit = decodeFit(buffer);
+  } catch (error) {
+    if (error instanceof FitDecodeError) {
+      throw new ImportError(`Malformed FIT file: ${error.message} (byte ${error.offset})`);
+    }
+    throw error;
+  }
+
+  const points: GPSPoint[] = [];
+  for (const record of fit.records) {
+    // Records without a fix only carry sensor data
+    if (record.latitude === null || record.longitude === null) continue;
+    points.push({
+      latitude: record.latitude,
+      longitude: record.longitude,
+      altitude: record.altitude,
+      accuracy: null,
+      speed: record.speed,
+      timestamp: record.timestamp,
+    });
+  }
+
+  return finalizeTrack({
+    format: 'fit',
+    activity_type: fit.sport,
+    points,
+    laps: fit.laps.map(toActivityLap).filter((lap): lap is ActivityLap => lap !== null),
+  });
+}
+
+function finalizeTrack(track: ImportedTrack): ImportedTrack {
+  if (track.points.length < 2) {
+    throw new ImportError('Track must contain at least 2 points with a position');
+  }
+
+  track.points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return track;
+}
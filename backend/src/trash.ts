@@ -0,0 +1,99 @@
+import { Collections } from './database';
+import { ActivitySummary, SUMMARY_PROJECTION, visibleActivities, withSummaryPolylines } from './activities';
+import { saveBestEfforts } from './records';
+import { Activity } from './types';
+
+// Days a deleted activity stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Trashed activity with the date it will be purged
+export type TrashedActivity = ActivitySummary & { purge_at: Date };
+
+// Move visible activities of a user to the trash, returning the ids moved.
+// Their best efforts are removed so records only count visible activities.
+export async function trashActivities(collections: Collections, userId: string, activityIds: string[]): Promise<string[]> {
+  const activities = await collections.activities
+    .find({ ...visibleActivities(userId), id: { $in: activityIds } })
+    .project<Pick<Activity, 'id'>>({ id: 1 })
+    .toArray();
+  const ids = activities.map((activity) => activity.id);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  await collections.activities.updateMany({ id: { $in: ids } }, { $set: { deleted_at: new Date() } });
+  await collections.bestEfforts.deleteMany({ activity_id: { $in: ids } });
+  return ids;
+}
+
+// Bring activities back from the trash, returning the ids restored
+export async function restoreActivities(collections: Collections, userId: string, activityIds: string[]): Promise<string[]> {
+  const activities = await collections.activities
+    .find({ user_id: userId, id: { $in: activityIds }, deleted_at: { $exists: true } })
+    .toArray();
+  if (activities.length === 0) {
+    return [];
+  }
+
+  const ids = activities.map((activity) => activity.id);
+  await collections.activities.updateMany({ id: { $in: ids } }, { $unset: { deleted_at: '' } });
+  for (const activity of activities) {
+    await saveBestEfforts(collections, activity);
+  }
+  return ids;
+}
+
+export async function listTrash(collections: Collections, userId: string): Promise<TrashedActivity[]> {
+  const activities = await collections.activities
+    .find({ user_id: userId, deleted_at: { $exists: true } })
+    .sort({ deleted_at: -1, id: -1 })
+    .project<ActivitySummary>(SUMMARY_PROJECTION)
+    .toArray();
+
+  return (await withSummaryPolylines(collections, activities)).map((activity) => ({
+    ...activity,
+    purge_at: new Date(new Date(activity.deleted_at!).getTime() + TRASH_RETENTION_DAYS * DAY),
+  }));
+}
+
+// Delete for good the activities trashed more than TRASH_RETENTION_DAYS ago.
+// Originals hidden by a split or merge can only be recovered through the
+// activities that replaced them, so they go along with those.
+export async function purgeTrash(collections: Collections, now = new Date()): Promise<number> {
+  const expired = await collections.activities
+    .find({ deleted_at: { $lt: new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY) } })
+    .project<Pick<Activity, 'id'>>({ id: 1 })
+    .toArray();
+
+  let purged = 0;
+  let ids = expired.map((activity) => activity.id);
+  while (ids.length > 0) {
+    await collections.activities.deleteMany({ id: { $in: ids } });
+    await collections.bestEfforts.deleteMany({ activity_id: { $in: ids } });
+    purged += ids.length;
+
+    const orphans = await collections.activities
+      .find({ replaced_by: { $in: ids } })
+      .project<Pick<Activity, 'id'>>({ id: 1 })
+      .toArray();
+    ids = orphans.map((activity) => activity.id);
+  }
+  return purged;
+}
+
+// Purge the trash now and then every `intervalMs`, without keeping the process alive
+export function startTrashPurge(collections: Collections, intervalMs = 60 * 60 * 1000): void {
+  const run = () =>
+    purgeTrash(collections)
+      .then((purged) => {
+        if (purged > 0) {
+          console.log(`🗑️  Purged ${purged} activities from the trash`);
+        }
+      })
+      .catch((error) => console.error('Trash purge error:', error));
+
+  run();
+  setInterval(run, intervalMs).unref();
+}
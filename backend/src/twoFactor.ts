@@ -0,0 +1,91 @@
+import { Collections } from './database';
+import { hashToken } from './tokens';
+import { User } from './types';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  otpauthUri,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from './totp';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_uri: string;
+}
+
+// Generate a new secret; it only takes effect once confirmed with enableTwoFactor
+export async function startTwoFactorSetup(collections: Collections, user: User): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  await collections.users.updateOne({ id: user.id }, { $set: { two_factor_pending_secret: secret } });
+
+  return { secret, otpauth_uri: otpauthUri(secret, user.email) };
+}
+
+// Turn two-factor auth on with a code from the pending secret. Returns the
+// recovery codes (only shown once) or null when the code is wrong.
+export async function enableTwoFactor(collections: Collections, user: User, code: string): Promise<string[] | null> {
+  const secret = user.two_factor_pending_secret;
+  const counter = secret ? verifyTotp(secret, code) : null;
+  if (!secret || counter === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await collections.users.updateOne(
+    { id: user.id },
+    {
+      $set: {
+        two_factor_enabled: true,
+        two_factor_secret: secret,
+        two_factor_pending_secret: null,
+        two_factor_last_counter: counter,
+        recovery_codes: recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode))),
+      },
+    }
+  );
+
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(collections: Collections, userId: string): Promise<void> {
+  await collections.users.updateOne(
+    { id: userId },
+    {
+      $set: {
+        two_factor_enabled: false,
+        two_factor_secret: null,
+        two_factor_pending_secret: null,
+        two_factor_last_counter: null,
+        recovery_codes: [],
+      },
+    }
+  );
+}
+
+// Check a TOTP code or a recovery code. Each TOTP code and each recovery
+// code is accepted only once.
+export async function verifySecondFactor(collections: Collections, user: User, code: string): Promise<boolean> {
+  if (!user.two_factor_enabled || !user.two_factor_secret) {
+    return false;
+  }
+
+  const counter = verifyTotp(user.two_factor_secret, code);
+  if (counter !== null) {
+    const result = await collections.users.updateOne(
+      {
+        id: user.id,
+        $or: [{ two_factor_last_counter: null }, { two_factor_last_counter: { $lt: counter } }],
+      },
+      { $set: { two_factor_last_counter: counter } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+  const result = await collections.users.updateOne(
+    { id: user.id, recovery_codes: codeHash },
+    { $pull: { recovery_codes: codeHash } }
+  );
+  return result.modifiedCount === 1;
+}
@@ -3,7 +3,19 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  email_verified: boolean;
+  // New address waiting for confirmation
+  pending_email: string | null;
   password_hash: string;
+  two_factor_enabled?: boolean;
+  // Base32 TOTP secret, set once two-factor auth is confirmed
+  two_factor_secret?: string | null;
+  // Secret generated by setup, waiting for a first valid code
+  two_factor_pending_secret?: string | null;
+  // Last accepted TOTP counter, so a code cannot be replayed
+  two_factor_last_counter?: number | null;
+  // SHA256 hashes of the unused recovery codes
+  recovery_codes?: string[];
   photo: string | null;
   created_at: Date;
 }
@@ -12,11 +24,15 @@ export interface UserCreate {
   name: string;
   email: string;
   password: string;
+  device_name?: string | null;
+  platform?: string | null;
 }
 
 export interface UserLogin {
   email: string;
   password: string;
+  device_name?: string | null;
+  platform?: string | null;
 }
 
 export interface UserUpdate {
@@ -29,16 +45,60 @@ export interface UserResponse {
   id: string;
   name: string;
   email: string;
+  email_verified: boolean;
+  pending_email: string | null;
+  two_factor_enabled: boolean;
   photo: string | null;
   created_at: Date;
 }
 
 export interface TokenResponse {
   access_token: string;
+  refresh_token: string;
   token_type: string;
+  expires_in: number;
   user: UserResponse;
 }
 
+export interface TwoFactorChallengeResponse {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface Session {
+  id: string;
+  user_id: string;
+  device_name: string | null;
+  platform: string | null;
+  ip: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+export interface SessionResponse {
+  id: string;
+  device_name: string | null;
+  platform: string | null;
+  ip: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  current: boolean;
+}
+
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  session_id: string;
+  token_hash: string;
+  created_at: Date;
+  expires_at: Date;
+  used_at: Date | null;
+  revoked_at: Date | null;
+}
+
 // GPS & Activity types
 export interface GPSPoint {
   latitude: number;
@@ -49,6 +109,14 @@ export interface GPSPoint {
   timestamp: Date;
 }
 
+export interface ActivityLap {
+  start_time: Date;
+  end_time: Date;
+  distance: number;
+  duration: number;
+  avg_speed: number;
+}
+
 export interface ActivityCreate {
   activity_type: string;
   gps_points: GPSPoint[];
@@ -57,31 +125,261 @@ export interface ActivityCreate {
   avg_speed: number;
   start_time: Date;
   end_time: Date;
+  title?: string;
+  description?: string | null;
+  timezone?: string;
+}
+
+// Metrics as reported by the client, kept for auditing against the server values
+export interface ClientMetrics {
+  distance: number;
+  duration: number;
+  avg_speed: number;
+  start_time: Date;
+  end_time: Date;
+}
+
+// Input of the shared creation path, whatever the activity comes from
+export interface NewActivity {
+  activity_type: string;
+  gps_points: GPSPoint[];
+  title?: string;
+  description?: string | null;
+  // IANA timezone used for the default title, UTC otherwise
+  timezone?: string;
+  laps?: ActivityLap[];
+  client_metrics?: ClientMetrics;
+}
+
+export type ActivitySource = 'app' | 'gpx' | 'tcx' | 'fit';
+
+// Stationary period detected in the track, e.g. a wait at a traffic light;
+// duration is in seconds and the position is the middle of the stopped points
+export interface ActivityStop {
+  start_time: Date;
+  end_time: Date;
+  duration: number;
+  latitude: number;
+  longitude: number;
+}
+
+// Track as recorded, kept when an activity is cropped so the crop can be undone
+export interface OriginalTrack {
+  gps_points: GPSPoint[];
+  laps?: ActivityLap[];
 }
 
 export interface Activity {
   id: string;
   user_id: string;
   activity_type: string;
+  // Missing on activities saved before titles were added
+  title?: string;
+  description?: string | null;
+  // Perceived exertion, from 1 (very easy) to 10 (maximal)
+  perceived_exertion?: number | null;
+  tags?: string[];
   gps_points: GPSPoint[];
   distance: number;
+  // Same as elapsed_time, kept for older clients
   duration: number;
+  // Missing on activities saved before stops were detected, until they are opened
+  elapsed_time?: number;
+  moving_time: number;
+  // Over the moving time
   avg_speed: number;
+  stops?: ActivityStop[];
   start_time: Date;
   end_time: Date;
+  // Missing on activities saved before elevation was computed
+  elevation_gain?: number | null;
+  elevation_loss?: number | null;
+  min_altitude?: number | null;
+  max_altitude?: number | null;
+  // Simplified route as a Google encoded polyline, for lists
+  summary_polyline?: string;
+  laps?: ActivityLap[];
+  // Set while the activity is cropped; the original track is never sent to clients
+  cropped_at?: Date;
+  original_track?: OriginalTrack;
+  // Activities this one was split from or merged from
+  derived_from?: string[];
+  // Set on an activity hidden after being split or merged, until reverted
+  replaced_by?: string[];
+  replaced_at?: Date;
+  // Set while the activity is in the trash
+  deleted_at?: Date;
+  client_metrics?: ClientMetrics;
+  source?: ActivitySource;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+// Metadata editable after saving; changing the type recomputes the best efforts
+export interface ActivityUpdate {
+  title?: string;
+  description?: string | null;
+  activity_type?: string;
+  perceived_exertion?: number | null;
+  tags?: string[];
+}
+
+export type SplitUnit = 'km' | 'mi';
+
+// Stretch of an activity; pace is in seconds per split unit, avg_speed in km/h
+export interface Split {
+  index: number;
+  distance: number;
+  elapsed_time: number;
+  pace: number;
+  avg_speed: number;
+  elevation_delta: number | null;
+}
+
+export interface SplitsResponse {
+  unit: SplitUnit;
+  splits: Split[];
+  // Device laps of imported activities, empty otherwise
+  laps: Split[];
+}
+
+// Fastest time over a standard distance within one activity
+export interface BestEffort {
+  id: string;
+  user_id: string;
+  activity_id: string;
+  activity_type: string;
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  // Track slice covering the effort (indexes into gps_points)
+  start_index: number;
+  end_index: number;
+  start_time: Date;
   created_at: Date;
 }
 
+// Best effort as listed on an activity; pr_rank is 1 to 3 when it is
+// one of the user's three fastest for the distance
+export interface BestEffortResponse {
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  start_index: number;
+  end_index: number;
+  start_time: Date;
+  pr_rank: number | null;
+}
+
+export interface PersonalRecord {
+  activity_type: string;
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  activity_id: string;
+  start_time: Date;
+}
+
+// Record set by a newly saved activity; previous_elapsed_time is null for a first effort
+export interface NewRecord {
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  previous_elapsed_time: number | null;
+}
+
+// Activity standing out in a breakdown, distance in km
+export interface ActivityHighlight {
+  activity_id: string;
+  start_time: Date;
+  distance: number;
+  duration: number;
+  avg_speed: number;
+}
+
+// Stats of one activity type; speeds are not comparable across types
+export interface ActivityTypeStats {
+  total_activities: number;
+  total_distance: number;
+  total_duration: number;
+  total_elevation_gain: number;
+  total_elevation_loss: number;
+  avg_speed: number;
+  avg_distance: number;
+  avg_duration: number;
+  longest: ActivityHighlight;
+  fastest: ActivityHighlight;
+}
+
 export interface GlobalStats {
   total_activities: number;
   total_distance: number;
   total_duration: number;
+  total_elevation_gain: number;
+  total_elevation_loss: number;
+  avg_speed: number;
+  // Keyed by activity_type, types without activities are left out
+  by_type: Record<string, ActivityTypeStats>;
+}
+
+export type PeriodGranularity = 'week' | 'month' | 'year';
+
+// Totals of one calendar period, distance in km, elevation in m and avg_speed in km/h
+export interface PeriodStats {
+  start: Date;
+  end: Date;
+  count: number;
+  distance: number;
+  duration: number;
+  elevation_gain: number;
+  elevation_loss: number;
   avg_speed: number;
 }
 
+export interface PeriodStatsResponse {
+  granularity: PeriodGranularity;
+  timezone: string;
+  from: Date;
+  to: Date;
+  buckets: PeriodStats[];
+}
+
+// Rate limiting state of one key (sliding window hits or login failures)
+export interface RateLimitEntry {
+  key: string;
+  hits?: Date[];
+  failures?: number;
+  locked_until?: Date;
+  expires_at: Date;
+}
+
 // JWT payload
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface AuthToken {
+  id: string;
+  user_id: string;
+  purpose: AuthTokenPurpose;
+  // Address being verified (email_verification)
+  email?: string;
+  token_hash: string;
+  created_at: Date;
+  expires_at: Date;
+  used_at: Date | null;
+}
+
 export interface JWTPayload {
   sub: string;
+  sid: string;
+  exp: number;
+  iat: number;
+}
+
+export interface TwoFactorChallengePayload {
+  sub: string;
+  purpose: '2fa';
+  device_name: string | null;
+  platform: string | null;
   exp: number;
   iat: number;
 }
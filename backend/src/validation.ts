@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+
+type RequestLocation = 'body' | 'query' | 'params';
+
+export interface FieldError {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+export interface ValidationErrorResponse {
+  detail: string;
+  errors: FieldError[];
+}
+
+export type RequestSchemas = Partial<Record<RequestLocation, z.ZodType>>;
+
+function toFieldErrors(location: RequestLocation, error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    location,
+    field: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+// Validate and coerce body, query and route params. On success the parsed
+// values replace the raw ones; on failure every failing field is reported
+// at once with a 422.
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as RequestLocation[]) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        errors.push(...toFieldErrors(location, result.error));
+      }
+    }
+
+    if (errors.length > 0) {
+      const response: ValidationErrorResponse = { detail: 'Validation failed', errors };
+      res.status(422).json(response);
+      return;
+    }
+
+    if (parsed.params) req.params = parsed.params as Request['params'];
+    if (parsed.query) req.query = parsed.query as Request['query'];
+    if (parsed.body) req.body = parsed.body;
+    next();
+  };
+}
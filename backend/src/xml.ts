@@ -0,0 +1,187 @@
+// Minimal XML reader for track files (GPX, TCX).
+// Supports elements, attributes, text, CDATA, comments and the predefined
+// entities; namespace prefixes are stripped from element and attribute names.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+}
+
+export class XmlParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.name = 'XmlParseError';
+    this.line = line;
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// Highest code point a character reference may refer to
+const MAX_CODE_POINT = 0x10ffff;
+
+const TAG_PATTERN = /([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.substring(index + 1);
+}
+
+function decodeEntities(value: string, line: number): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint = entity.startsWith('#x')
+        ? parseInt(entity.substring(2), 16)
+        : parseInt(entity.substring(1), 10);
+      if (!Number.isSafeInteger(codePoint) || codePoint > MAX_CODE_POINT) {
+        throw new XmlParseError(`Invalid character reference ${match}`, line);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    if (ENTITIES[entity] === undefined) {
+      throw new XmlParseError(`Unknown entity ${match}`, line);
+    }
+    return ENTITIES[entity];
+  });
+}
+
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  let line = 1;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) {
+      if (source.charCodeAt(i) === 10) line++;
+    }
+    pos = to;
+  };
+
+  const skipUntil = (terminator: string, description: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) {
+      throw new XmlParseError(`Unterminated ${description}`, line);
+    }
+    const content = source.substring(pos, end);
+    advance(end + terminator.length);
+    return content;
+  };
+
+  while (pos < source.length) {
+    const next = source.indexOf('<', pos);
+
+    if (next === -1 || next > pos) {
+      const end = next === -1 ? source.length : next;
+      const text = source.substring(pos, end);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decodeEntities(text, line);
+      } else if (text.trim()) {
+        throw new XmlParseError('Text outside of root element', line);
+      }
+      advance(end);
+      continue;
+    }
+
+    if (source.startsWith('<?', pos)) {
+      skipUntil('?>', 'processing instruction');
+    } else if (source.startsWith('<!--', pos)) {
+      skipUntil('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      advance(pos + 9);
+      const text = skipUntil(']]>', 'CDATA section');
+      if (stack.length === 0) {
+        throw new XmlParseError('CDATA outside of root element', line);
+      }
+      stack[stack.length - 1].text += text;
+    } else if (source.startsWith('<!', pos)) {
+      skipUntil('>', 'declaration');
+    } else if (source.startsWith('</', pos)) {
+      const tagLine = line;
+      advance(pos + 2);
+      const name = localName(skipUntil('>', 'closing tag').trim());
+      const current = stack.pop();
+      if (!current) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`, tagLine);
+      }
+      if (current.name !== name) {
+        throw new XmlParseError(
+          `Mismatched closing tag </${name}>, expected </${current.name}> (opened on line ${current.line})`,
+          tagLine
+        );
+      }
+    } else {
+      const tagLine = line;
+      advance(pos + 1);
+      TAG_PATTERN.lastIndex = pos;
+      const match = TAG_PATTERN.exec(source);
+      if (!match) {
+        throw new XmlParseError('Malformed tag', tagLine);
+      }
+
+      const element: XmlElement = {
+        name: localName(match[1]),
+        attributes: {},
+        children: [],
+        text: '',
+        line: tagLine,
+      };
+
+      const attributePattern = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(match[2])) !== null) {
+        element.attributes[localName(attribute[1])] = decodeEntities(
+          attribute[2] ?? attribute[3],
+          tagLine
+        );
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new XmlParseError(`Unexpected second root element <${element.name}>`, tagLine);
+      } else {
+        root = element;
+      }
+
+      if (!match[3]) {
+        stack.push(element);
+      }
+      advance(pos + match[0].length);
+    }
+  }
+
+  if (stack.length > 0) {
+    const unclosed = stack[stack.length - 1];
+    throw new XmlParseError(`Unclosed element <${unclosed.name}>`, unclosed.line);
+  }
+  if (!root) {
+    throw new XmlParseError('Document has no root element', line);
+  }
+
+  return root;
+}
+
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+export function findChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  const child = findChild(element, name);
+  return child ? child.text.trim() : undefined;
+}
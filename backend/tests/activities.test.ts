@@ -0,0 +1,28 @@
+import { defaultActivityTitle, retypedDefaultTitle } from '../src/activities';
+
+describe('defaultActivityTitle', () => {
+  it('names the activity after its type and local start hour', () => {
+    const start = new Date('2025-01-15T07:30:00.000Z');
+    expect(defaultActivityTitle('running', start)).toBe('Course du matin');
+    expect(defaultActivityTitle('cycling', start, 'America/New_York')).toBe('Sortie vélo de nuit');
+    expect(defaultActivityTitle('hiking', new Date('2025-01-15T15:00:00.000Z'), 'Europe/Paris')).toBe(
+      "Randonnée de l'après-midi"
+    );
+  });
+});
+
+describe('retypedDefaultTitle', () => {
+  it('follows the new type when the title is still the default one', () => {
+    expect(retypedDefaultTitle('Course du matin', 'running', 'cycling')).toBe('Sortie vélo du matin');
+    expect(retypedDefaultTitle("Marche de l'après-midi", 'walking', 'hiking')).toBe("Randonnée de l'après-midi");
+  });
+
+  it('keeps titles written by the user', () => {
+    expect(retypedDefaultTitle('Course du matin avec Paul', 'running', 'cycling')).toBeNull();
+    expect(retypedDefaultTitle('Sortie longue', 'running', 'cycling')).toBeNull();
+  });
+
+  it('keeps default titles of another type', () => {
+    expect(retypedDefaultTitle('Marche du soir', 'running', 'cycling')).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeFit, FitDecodeError, isFitFile } from '../src/fit';
+import { parseFitFile, ImportError } from '../src/trackImport';
+
+// Fixtures:
+// - activity.fit: running session, 6 records (the 4th without a fix, the last
+//   without enhanced fields) and 2 laps (the 2nd without enhanced_avg_speed)
+// - compressed-timestamps.fit: hiking sport message, then records using
+//   compressed timestamp headers that cross a rollover of the 5-bit offset
+// - truncated.fit: the first 80 bytes of activity.fit
+// - bad-crc.fit: activity.fit with one data byte flipped
+function fixture(name: string): Buffer {
+  return readFileSync(join(__dirname, 'fixtures', name));
+}
+
+const START = new Date('2025-01-15T08:00:00.000Z');
+
+function secondsAfterStart(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+describe('decodeFit', () => {
+  it('recognizes the FIT signature', () => {
+    expect(isFitFile(fixture('activity.fit'))).toBe(true);
+    expect(isFitFile(Buffer.from('<?xml version="1.0"?><gpx></gpx>'))).toBe(false);
+  });
+
+  it('decodes records with positions in degrees', () => {
+    const { records } = decodeFit(fixture('activity.fit'));
+
+    expect(records).toHaveLength(6);
+    expect(records[0].timestamp).toEqual(START);
+    expect(records[5].timestamp).toEqual(secondsAfterStart(50));
+    records.forEach((record, index) => {
+      if (index === 3) return;
+      expect(record.latitude).toBeCloseTo(48.8566 + index * 0.0003, 6);
+      expect(record.longitude).toBeCloseTo(2.3522, 6);
+      expect(record.distance).toBeCloseTo(index * 30, 6);
+    });
+    expect(records[3].latitude).toBeNull();
+    expect(records[3].longitude).toBeNull();
+  });
+
+  it('prefers enhanced altitude and speed over the 16-bit fields', () => {
+    const { records } = decodeFit(fixture('activity.fit'));
+
+    expect(records[0].altitude).toBeCloseTo(35, 6);
+    expect(records[0].speed).toBeCloseTo(3, 6);
+    expect(records[4].altitude).toBeCloseTo(39, 6);
+    expect(records[4].speed).toBeCloseTo(3.4, 6);
+    // Without enhanced fields, the 16-bit ones are used
+    expect(records[5].altitude).toBeCloseTo(100, 6);
+    expect(records[5].speed).toBeCloseTo(2, 6);
+  });
+
+  it('decodes laps', () => {
+    const { laps } = decodeFit(fixture('activity.fit'));
+
+    expect(laps).toEqual([
+      {
+        start_time: START,
+        timestamp: secondsAfterStart(30),
+        total_elapsed_time: 30,
+        total_timer_time: 28,
+        total_distance: 100,
+        avg_speed: 3.3,
+        max_speed: null,
+        total_ascent: 4,
+        total_descent: 1,
+      },
+      {
+        start_time: secondsAfterStart(30),
+        timestamp: secondsAfterStart(50),
+        total_elapsed_time: 20,
+        total_timer_time: 20,
+        total_distance: 50,
+        avg_speed: 2.5,
+        max_speed: null,
+        total_ascent: null,
+        total_descent: null,
+      },
+    ]);
+  });
+
+  it('takes the sport from the session message', () => {
+    expect(decodeFit(fixture('activity.fit')).sport).toBe('running');
+  });
+
+  it('takes the sport from the sport message', () => {
+    expect(decodeFit(fixture('compressed-timestamps.fit')).sport).toBe('hiking');
+  });
+
+  it('resolves compressed timestamps across a rollover', () => {
+    const { records } = decodeFit(fixture('compressed-timestamps.fit'));
+
+    expect(records.map((record) => record.timestamp)).toEqual(
+      [28, 30, 32, 34, 36].map(secondsAfterStart)
+    );
+    expect(records[4].latitude).toBeCloseTo(45.0004, 6);
+    expect(records[4].longitude).toBeCloseTo(6, 6);
+  });
+
+  it('reports where a truncated file ends', () => {
+    const buffer = fixture('truncated.fit');
+    expect(() => decodeFit(buffer)).toThrow(FitDecodeError);
+    expect(() => decodeFit(buffer)).toThrow(
+      expect.objectContaining({ message: 'File is truncated', offset: buffer.length })
+    );
+  });
+
+  it('reports a CRC mismatch at the end of the data', () => {
+    const buffer = fixture('bad-crc.fit');
+    const dataEnd = buffer.readUInt8(0) + buffer.readUInt32LE(4);
+    expect(() => decodeFit(buffer)).toThrow(
+      expect.objectContaining({ name: 'FitDecodeError', message: 'CRC mismatch', offset: dataEnd })
+    );
+  });
+
+  it('rejects files without a FIT header', () => {
+    expect(() => decodeFit(Buffer.alloc(4))).toThrow(
+      expect.objectContaining({ message: 'File too short', offset: 0 })
+    );
+  });
+});
+
+describe('parseFitFile', () => {
+  it('builds a track without the records lacking a fix', () => {
+    const track = parseFitFile(fixture('activity.fit'));
+
+    expect(track.format).toBe('fit');
+    expect(track.activity_type).toBe('running');
+    expect(track.points).toHaveLength(5);
+    expect(track.points[0]).toEqual({
+      latitude: expect.closeTo(48.8566, 6),
+      longitude: expect.closeTo(2.3522, 6),
+      altitude: expect.closeTo(35, 6),
+      accuracy: null,
+      speed: expect.closeTo(3, 6),
+      timestamp: START,
+    });
+  });
+
+  it('maps laps with speeds in km/h', () => {
+    const track = parseFitFile(fixture('activity.fit'));
+
+    expect(track.laps).toHaveLength(2);
+    expect(track.laps![0]).toEqual({
+      start_time: START,
+      end_time: secondsAfterStart(30),
+      distance: 100,
+      duration: 30,
+      avg_speed: expect.closeTo(11.88, 6),
+    });
+    expect(track.laps![1]).toMatchObject({ distance: 50, duration: 20, avg_speed: expect.closeTo(9, 6) });
+  });
+
+  it('turns decode errors into import errors with the byte offset', () => {
+    const buffer = fixture('bad-crc.fit');
+    const dataEnd = buffer.readUInt8(0) + buffer.readUInt32LE(4);
+    expect(() => parseFitFile(buffer)).toThrow(ImportError);
+    expect(() => parseFitFile(buffer)).toThrow(`Malformed FIT file: CRC mismatch (byte ${dataEnd})`);
+  });
+});
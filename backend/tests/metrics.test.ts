@@ -0,0 +1,83 @@
+import { computeActivityMetrics, detectStops, findImplausibility } from '../src/metrics';
+import { GPSPoint } from '../src/types';
+
+const START = Date.parse('2025-01-15T08:00:00.000Z');
+const METERS_PER_DEGREE = 111195;
+
+// One point per second going north at the given speeds (m/s), without device speed like a GPX import
+function track(speeds: number[], jitter = 0): GPSPoint[] {
+  let latitude = 48.85;
+  return speeds.map((speed, second) => {
+    latitude += speed / METERS_PER_DEGREE;
+    // Alternating offset, as GPS noise around a fixed position
+    const noise = speed === 0 ? ((second % 2) * 2 - 1) * (jitter / METERS_PER_DEGREE) : 0;
+    return {
+      latitude: latitude + noise,
+      longitude: 2.35,
+      altitude: null,
+      accuracy: 5,
+      speed: null,
+      timestamp: new Date(START + second * 1000),
+    };
+  });
+}
+
+function repeat(speed: number, seconds: number): number[] {
+  return Array(seconds).fill(speed);
+}
+
+describe('detectStops', () => {
+  it('does not mistake a slow walk for stops', () => {
+    const points = track(repeat(0.9, 3600));
+    expect(detectStops(points)).toEqual([]);
+
+    const metrics = computeActivityMetrics(points);
+    expect(metrics.moving_time).toBe(metrics.elapsed_time);
+    expect(metrics.avg_speed).toBeCloseTo(0.9 * 3.6, 1);
+  });
+
+  it('still checks the speed of a slow track for plausibility', () => {
+    const points = track(repeat(6, 600));
+    expect(findImplausibility(points, 'walking', computeActivityMetrics(points))).toMatch(/not plausible/);
+  });
+
+  it('detects a wait at a traffic light despite GPS noise', () => {
+    const points = track([...repeat(3, 300), ...repeat(0, 60), ...repeat(3, 300)], 3);
+    const stops = detectStops(points);
+
+    // The last seconds of the approach fall within the stop radius
+    expect(stops).toHaveLength(1);
+    expect(stops[0].start_time.getTime()).toBeGreaterThanOrEqual(START + 294 * 1000);
+    expect(stops[0].start_time.getTime()).toBeLessThanOrEqual(START + 300 * 1000);
+    expect(stops[0].duration).toBeGreaterThanOrEqual(58);
+    expect(stops[0].duration).toBeLessThanOrEqual(66);
+
+    const metrics = computeActivityMetrics(points);
+    expect(metrics.elapsed_time).toBe(659);
+    expect(metrics.moving_time).toBe(659 - stops[0].duration);
+    expect(metrics.avg_speed).toBeCloseTo(metrics.distance / 1000 / (metrics.moving_time / 3600), 6);
+  });
+
+  it('ignores waits shorter than 15 seconds', () => {
+    expect(detectStops(track([...repeat(3, 60), ...repeat(0, 10), ...repeat(3, 60)]))).toEqual([]);
+  });
+
+  it('follows the device speed when there is one', () => {
+    const points = track(repeat(0.2, 120)).map((point) => ({ ...point, speed: 1.5 }));
+    expect(detectStops(points)).toEqual([]);
+  });
+
+  it('counts a long gap in the recording with little progress as a stop', () => {
+    const points = track(repeat(3, 60));
+    const resumed = track(repeat(3, 60)).map((point) => ({
+      ...point,
+      latitude: point.latitude + (180 + 20) / METERS_PER_DEGREE,
+      timestamp: new Date(point.timestamp.getTime() + 600 * 1000),
+    }));
+    const stops = detectStops([...points, ...resumed]);
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0].start_time).toEqual(points[59].timestamp);
+    expect(stops[0].end_time).toEqual(resumed[0].timestamp);
+  });
+});
@@ -0,0 +1,73 @@
+import { parseXml, XmlParseError } from '../src/xml';
+import { parseTrackFile, ImportError } from '../src/trackImport';
+
+function parseError(source: string): XmlParseError {
+  try {
+    parseXml(source);
+  } catch (error) {
+    if (error instanceof XmlParseError) return error;
+    throw error;
+  }
+  throw new Error('Expected an XmlParseError');
+}
+
+describe('parseXml', () => {
+  it('parses elements, attributes, entities and CDATA', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?>\n<gpx:gpx a="1 &amp; 2">\n  <name>A &lt;b&gt; &#233;&#x1F3C3;</name>\n  <desc><![CDATA[<raw> & text]]></desc>\n</gpx:gpx>'
+    );
+
+    expect(root.name).toBe('gpx');
+    expect(root.attributes).toEqual({ a: '1 & 2' });
+    expect(root.children.map((child) => [child.name, child.text, child.line])).toEqual([
+      ['name', 'A <b> é🏃', 3],
+      ['desc', '<raw> & text', 4],
+    ]);
+  });
+
+  it('rejects unknown entities', () => {
+    const error = parseError('<gpx>\n<name>&nbsp;</name></gpx>');
+    expect(error.message).toBe('Unknown entity &nbsp;');
+    expect(error.line).toBe(2);
+  });
+
+  it('rejects mismatched closing tags', () => {
+    const error = parseError('<gpx>\n<trk>\n</gpx>');
+    expect(error.message).toBe('Mismatched closing tag </gpx>, expected </trk> (opened on line 2)');
+    expect(error.line).toBe(3);
+  });
+
+  it('rejects unterminated CDATA sections', () => {
+    const error = parseError('<gpx>\n<name><![CDATA[never closed</name></gpx>');
+    expect(error.message).toBe('Unterminated CDATA section');
+    expect(error.line).toBe(2);
+  });
+
+  it.each(['&#99999999;', '&#x110000;', '&#999999999999999999999;'])(
+    'rejects the out-of-range character reference %s',
+    (reference) => {
+      const error = parseError(`<gpx>\n<trk><name>${reference}</name></trk></gpx>`);
+      expect(error.message).toBe(`Invalid character reference ${reference}`);
+      expect(error.line).toBe(2);
+    }
+  );
+
+  it('rejects out-of-range character references in attributes', () => {
+    const error = parseError('<gpx>\n<trkpt lat="&#x7FFFFFFF;"/></gpx>');
+    expect(error.message).toBe('Invalid character reference &#x7FFFFFFF;');
+    expect(error.line).toBe(2);
+  });
+});
+
+describe('parseTrackFile', () => {
+  it('reports malformed XML as an import error with its line', () => {
+    expect(() => parseTrackFile('<gpx><trk>\n<name>&#99999999;</name></trk></gpx>')).toThrow(
+      expect.objectContaining({
+        name: 'ImportError',
+        message: 'Malformed XML: Invalid character reference &#99999999;',
+        line: 2,
+      })
+    );
+    expect(() => parseTrackFile('<gpx><trk><name>&#99999999;</name></trk></gpx>')).toThrow(ImportError);
+  });
+});
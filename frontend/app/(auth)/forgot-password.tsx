@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import api, { getFieldErrors, FieldErrors } from '../../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
+
+export default function ForgotPasswordScreen() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const router = useRouter();
+
+  const handleSubmit = async () => {
+    if (!email) {
+      Alert.alert('Erreur', 'Veuillez saisir votre email');
+      return;
+    }
+
+    setIsLoading(true);
+    setFieldErrors({});
+    try {
+      await api.post('/auth/forgot-password', { email });
+      setIsSent(true);
+    } catch (error: any) {
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        return;
+      }
+      const message = error.response?.data?.detail || "Impossible d'envoyer l'email";
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          </TouchableOpacity>
+
+          <View style={styles.header}>
+            <Text style={styles.title}>Mot de passe oublié</Text>
+            <Text style={styles.subtitle}>
+              {isSent
+                ? 'Si un compte existe pour cet email, vous allez recevoir un lien pour choisir un nouveau mot de passe.'
+                : 'Saisissez votre email pour recevoir un lien de réinitialisation.'}
+            </Text>
+          </View>
+
+          {isSent ? (
+            <View style={styles.form}>
+              <TouchableOpacity
+                style={styles.button}
+                onPress={() => router.push('/(auth)/reset-password')}
+              >
+                <Text style={styles.buttonText}>{"J'ai reçu un code"}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setIsSent(false)}>
+                <Text style={styles.secondaryButtonText}>{"Renvoyer l'email"}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.form}>
+              <View style={[styles.inputContainer, fieldErrors.email && styles.inputContainerError]}>
+                <MaterialIcons name="email" size={22} color={COLORS.textSecondary} />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Email"
+                  placeholderTextColor={COLORS.textMuted}
+                  value={email}
+                  onChangeText={(value) => {
+                    setEmail(value);
+                    setFieldErrors({});
+                  }}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                />
+              </View>
+              {!!fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
+
+              <TouchableOpacity
+                style={[styles.button, isLoading && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color={COLORS.background} />
+                ) : (
+                  <Text style={styles.buttonText}>Envoyer le lien</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.xl,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  header: {
+    marginBottom: SPACING.xl,
+  },
+  title: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  form: {
+    gap: SPACING.md,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  inputContainerError: {
+    borderColor: COLORS.error,
+  },
+  fieldError: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.error,
+    marginTop: -SPACING.sm,
+    marginLeft: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.sm,
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  secondaryButton: {
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+});
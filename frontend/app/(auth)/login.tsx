@@ -15,6 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, Link } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../../src/context/AuthContext';
+import { getFieldErrors, getRetryAfter, FieldErrors } from '../../src/services/api';
 import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
 
 export default function LoginScreen() {
@@ -22,9 +23,19 @@ export default function LoginScreen() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const { login } = useAuth();
   const router = useRouter();
 
+  const clearFieldError = (field: string) => {
+    if (fieldErrors[field]) {
+      setFieldErrors((prev) => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
   const handleLogin = async () => {
     if (!email || !password) {
       Alert.alert('Erreur', 'Veuillez remplir tous les champs');
@@ -32,10 +43,28 @@ export default function LoginScreen() {
     }
 
     setIsLoading(true);
+    setFieldErrors({});
     try {
-      await login(email, password);
+      const result = await login(email, password);
+      if (result.twoFactorRequired) {
+        router.push({ pathname: '/(auth)/two-factor', params: { challenge: result.challengeToken } });
+        return;
+      }
       router.replace('/(tabs)');
     } catch (error: any) {
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        return;
+      }
+      const retryAfter = getRetryAfter(error);
+      if (retryAfter !== null) {
+        Alert.alert(
+          'Trop de tentatives',
+          `Réessayez dans ${Math.ceil(retryAfter / 60)} minute${retryAfter > 60 ? 's' : ''}.`
+        );
+        return;
+      }
       const message = error.response?.data?.detail || 'Erreur de connexion';
       Alert.alert('Erreur', message);
     } finally {
@@ -63,28 +92,35 @@ export default function LoginScreen() {
           </View>
 
           <View style={styles.form}>
-            <View style={styles.inputContainer}>
+            <View style={[styles.inputContainer, fieldErrors.email && styles.inputContainerError]}>
               <MaterialIcons name="email" size={22} color={COLORS.textSecondary} />
               <TextInput
                 style={styles.input}
                 placeholder="Email"
                 placeholderTextColor={COLORS.textMuted}
                 value={email}
-                onChangeText={setEmail}
+                onChangeText={(value) => {
+                  setEmail(value);
+                  clearFieldError('email');
+                }}
                 keyboardType="email-address"
                 autoCapitalize="none"
                 autoComplete="email"
               />
             </View>
+            {!!fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
 
-            <View style={styles.inputContainer}>
+            <View style={[styles.inputContainer, fieldErrors.password && styles.inputContainerError]}>
               <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
               <TextInput
                 style={styles.input}
                 placeholder="Mot de passe"
                 placeholderTextColor={COLORS.textMuted}
                 value={password}
-                onChangeText={setPassword}
+                onChangeText={(value) => {
+                  setPassword(value);
+                  clearFieldError('password');
+                }}
                 secureTextEntry={!showPassword}
                 autoCapitalize="none"
               />
@@ -96,6 +132,13 @@ export default function LoginScreen() {
                 />
               </TouchableOpacity>
             </View>
+            {!!fieldErrors.password && <Text style={styles.fieldError}>{fieldErrors.password}</Text>}
+
+            <Link href="/(auth)/forgot-password" asChild>
+              <TouchableOpacity style={styles.forgotPassword}>
+                <Text style={styles.forgotPasswordText}>Mot de passe oublié ?</Text>
+              </TouchableOpacity>
+            </Link>
 
             <TouchableOpacity
               style={[styles.button, isLoading && styles.buttonDisabled]}
@@ -173,6 +216,17 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
     gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  inputContainerError: {
+    borderColor: COLORS.error,
+  },
+  fieldError: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.error,
+    marginTop: -SPACING.sm,
+    marginLeft: SPACING.sm,
   },
   input: {
     flex: 1,
@@ -180,6 +234,13 @@ const styles = StyleSheet.create({
     color: COLORS.textPrimary,
     paddingVertical: SPACING.sm,
   },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+  },
+  forgotPasswordText: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.primary,
+  },
   button: {
     backgroundColor: COLORS.primary,
     borderRadius: BORDER_RADIUS.md,
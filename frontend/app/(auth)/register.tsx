@@ -15,6 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, Link } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../../src/context/AuthContext';
+import { getFieldErrors, getRetryAfter, FieldErrors } from '../../src/services/api';
 import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
 
 export default function RegisterScreen() {
@@ -24,9 +25,19 @@ export default function RegisterScreen() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const { register } = useAuth();
   const router = useRouter();
 
+  const clearFieldError = (field: string) => {
+    if (fieldErrors[field]) {
+      setFieldErrors((prev) => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
   const handleRegister = async () => {
     if (!name || !email || !password || !confirmPassword) {
       Alert.alert('Erreur', 'Veuillez remplir tous les champs');
@@ -44,10 +55,24 @@ export default function RegisterScreen() {
     }
 
     setIsLoading(true);
+    setFieldErrors({});
     try {
       await register(name, email, password);
       router.replace('/(tabs)');
     } catch (error: any) {
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        return;
+      }
+      const retryAfter = getRetryAfter(error);
+      if (retryAfter !== null) {
+        Alert.alert(
+          'Trop de tentatives',
+          `Réessayez dans ${Math.ceil(retryAfter / 60)} minute${retryAfter > 60 ? 's' : ''}.`
+        );
+        return;
+      }
       const message = error.response?.data?.detail || "Erreur lors de l'inscription";
       Alert.alert('Erreur', message);
     } finally {
@@ -77,40 +102,51 @@ export default function RegisterScreen() {
           </View>
 
           <View style={styles.form}>
-            <View style={styles.inputContainer}>
+            <View style={[styles.inputContainer, fieldErrors.name && styles.inputContainerError]}>
               <MaterialIcons name="person" size={22} color={COLORS.textSecondary} />
               <TextInput
                 style={styles.input}
                 placeholder="Nom complet"
                 placeholderTextColor={COLORS.textMuted}
                 value={name}
-                onChangeText={setName}
+                onChangeText={(value) => {
+                  setName(value);
+                  clearFieldError('name');
+                }}
                 autoCapitalize="words"
               />
             </View>
+            {!!fieldErrors.name && <Text style={styles.fieldError}>{fieldErrors.name}</Text>}
 
-            <View style={styles.inputContainer}>
+            <View style={[styles.inputContainer, fieldErrors.email && styles.inputContainerError]}>
               <MaterialIcons name="email" size={22} color={COLORS.textSecondary} />
               <TextInput
                 style={styles.input}
                 placeholder="Email"
                 placeholderTextColor={COLORS.textMuted}
                 value={email}
-                onChangeText={setEmail}
+                onChangeText={(value) => {
+                  setEmail(value);
+                  clearFieldError('email');
+                }}
                 keyboardType="email-address"
                 autoCapitalize="none"
                 autoComplete="email"
               />
             </View>
+            {!!fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
 
-            <View style={styles.inputContainer}>
+            <View style={[styles.inputContainer, fieldErrors.password && styles.inputContainerError]}>
               <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
               <TextInput
                 style={styles.input}
                 placeholder="Mot de passe"
                 placeholderTextColor={COLORS.textMuted}
                 value={password}
-                onChangeText={setPassword}
+                onChangeText={(value) => {
+                  setPassword(value);
+                  clearFieldError('password');
+                }}
                 secureTextEntry={!showPassword}
                 autoCapitalize="none"
               />
@@ -122,6 +158,7 @@ export default function RegisterScreen() {
                 />
               </TouchableOpacity>
             </View>
+            {!!fieldErrors.password && <Text style={styles.fieldError}>{fieldErrors.password}</Text>}
 
             <View style={styles.inputContainer}>
               <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
@@ -203,6 +240,17 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
     gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  inputContainerError: {
+    borderColor: COLORS.error,
+  },
+  fieldError: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.error,
+    marginTop: -SPACING.sm,
+    marginLeft: SPACING.sm,
   },
   input: {
     flex: 1,
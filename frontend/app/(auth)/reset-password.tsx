@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import api, { getFieldErrors, FieldErrors } from '../../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
+
+export default function ResetPasswordScreen() {
+  // Set when the screen is opened from the link in the email
+  const params = useLocalSearchParams<{ token?: string }>();
+  const [token, setToken] = useState(params.token || '');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const router = useRouter();
+
+  const clearFieldError = (field: string) => {
+    if (fieldErrors[field]) {
+      setFieldErrors((prev) => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    if (!token || !password || !confirmPassword) {
+      Alert.alert('Erreur', 'Veuillez remplir tous les champs');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Erreur', 'Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    setIsLoading(true);
+    setFieldErrors({});
+    try {
+      await api.post('/auth/reset-password', { token: token.trim(), password });
+      Alert.alert('Succès', 'Votre mot de passe a été modifié. Vous pouvez vous connecter.', [
+        { text: 'OK', onPress: () => router.replace('/(auth)/login') },
+      ]);
+    } catch (error: any) {
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        return;
+      }
+      const message =
+        error.response?.status === 400
+          ? 'Ce lien est invalide ou a expiré. Faites une nouvelle demande.'
+          : error.response?.data?.detail || 'Erreur lors de la réinitialisation';
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/(auth)/login')}>
+            <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          </TouchableOpacity>
+
+          <View style={styles.header}>
+            <Text style={styles.title}>Nouveau mot de passe</Text>
+            <Text style={styles.subtitle}>
+              Choisissez un nouveau mot de passe. Vous serez déconnecté de tous vos appareils.
+            </Text>
+          </View>
+
+          <View style={styles.form}>
+            {!params.token && (
+              <>
+                <View style={[styles.inputContainer, fieldErrors.token && styles.inputContainerError]}>
+                  <MaterialIcons name="vpn-key" size={22} color={COLORS.textSecondary} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Code reçu par email"
+                    placeholderTextColor={COLORS.textMuted}
+                    value={token}
+                    onChangeText={(value) => {
+                      setToken(value);
+                      clearFieldError('token');
+                    }}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+                {!!fieldErrors.token && <Text style={styles.fieldError}>{fieldErrors.token}</Text>}
+              </>
+            )}
+
+            <View style={[styles.inputContainer, fieldErrors.password && styles.inputContainerError]}>
+              <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.input}
+                placeholder="Nouveau mot de passe"
+                placeholderTextColor={COLORS.textMuted}
+                value={password}
+                onChangeText={(value) => {
+                  setPassword(value);
+                  clearFieldError('password');
+                }}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
+                <MaterialIcons
+                  name={showPassword ? 'visibility' : 'visibility-off'}
+                  size={22}
+                  color={COLORS.textSecondary}
+                />
+              </TouchableOpacity>
+            </View>
+            {!!fieldErrors.password && <Text style={styles.fieldError}>{fieldErrors.password}</Text>}
+
+            <View style={styles.inputContainer}>
+              <MaterialIcons name="lock-outline" size={22} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirmer le mot de passe"
+                placeholderTextColor={COLORS.textMuted}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, isLoading && styles.buttonDisabled]}
+              onPress={handleReset}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color={COLORS.background} />
+              ) : (
+                <Text style={styles.buttonText}>Modifier le mot de passe</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.xl,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  header: {
+    marginBottom: SPACING.xl,
+  },
+  title: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  form: {
+    gap: SPACING.md,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  inputContainerError: {
+    borderColor: COLORS.error,
+  },
+  fieldError: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.error,
+    marginTop: -SPACING.sm,
+    marginLeft: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.sm,
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+});
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../../src/context/AuthContext';
+import { getRetryAfter } from '../../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
+
+// Second login step when two-factor authentication is enabled
+export default function TwoFactorScreen() {
+  const { challenge } = useLocalSearchParams<{ challenge: string }>();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { verifyTwoFactor } = useAuth();
+  const router = useRouter();
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      Alert.alert('Erreur', 'Veuillez saisir le code');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(challenge, code.trim());
+      router.replace('/(tabs)');
+    } catch (error: any) {
+      const detail = error.response?.data?.detail;
+      const retryAfter = getRetryAfter(error);
+      if (retryAfter !== null) {
+        Alert.alert(
+          'Trop de tentatives',
+          `Réessayez dans ${Math.ceil(retryAfter / 60)} minute${retryAfter > 60 ? 's' : ''}.`
+        );
+      } else if (detail === 'Invalid or expired challenge') {
+        Alert.alert('Session expirée', 'Veuillez vous reconnecter.', [
+          { text: 'OK', onPress: () => router.replace('/(auth)/login') },
+        ]);
+      } else if (detail === 'Invalid code') {
+        Alert.alert('Erreur', 'Code incorrect');
+        setCode('');
+      } else {
+        Alert.alert('Erreur', detail || 'Erreur de connexion');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/(auth)/login')}>
+            <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          </TouchableOpacity>
+
+          <View style={styles.header}>
+            <View style={styles.iconContainer}>
+              <MaterialIcons name="security" size={40} color={COLORS.primary} />
+            </View>
+            <Text style={styles.title}>Vérification en deux étapes</Text>
+            <Text style={styles.subtitle}>
+              {useRecoveryCode
+                ? "Saisissez un de vos codes de récupération. Chaque code ne peut servir qu'une fois."
+                : "Saisissez le code à 6 chiffres affiché par votre application d'authentification."}
+            </Text>
+          </View>
+
+          <View style={styles.form}>
+            <View style={styles.inputContainer}>
+              <MaterialIcons
+                name={useRecoveryCode ? 'vpn-key' : 'dialpad'}
+                size={22}
+                color={COLORS.textSecondary}
+              />
+              <TextInput
+                style={[styles.input, !useRecoveryCode && styles.codeInput]}
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                placeholderTextColor={COLORS.textMuted}
+                value={code}
+                onChangeText={setCode}
+                keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+                maxLength={useRecoveryCode ? 32 : 6}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+                autoFocus
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, isLoading && styles.buttonDisabled]}
+              onPress={handleVerify}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color={COLORS.background} />
+              ) : (
+                <Text style={styles.buttonText}>Vérifier</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.switchMode}
+              onPress={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+              }}
+            >
+              <Text style={styles.switchModeText}>
+                {useRecoveryCode ? "Utiliser un code d'authentification" : 'Utiliser un code de récupération'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.xl,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: SPACING.xl,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: SPACING.md,
+  },
+  title: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+    textAlign: 'center',
+  },
+  form: {
+    gap: SPACING.md,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.sm,
+  },
+  codeInput: {
+    letterSpacing: 8,
+    fontWeight: 'bold',
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  switchMode: {
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  switchModeText: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+});
@@ -16,26 +16,52 @@ import { fr } from 'date-fns/locale';
 import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../../src/constants/theme';
 import api from '../../src/services/api';
 import { useAuth } from '../../src/context/AuthContext';
+import PeriodBarChart from '../../src/components/PeriodBarChart';
+import ActivityCard, { ActivitySummary } from '../../src/components/ActivityCard';
 
-interface Activity {
-  id: string;
-  activity_type: string;
+interface ActivityHighlight {
+  activity_id: string;
+  start_time: string;
   distance: number;
   duration: number;
   avg_speed: number;
-  start_time: string;
+}
+
+interface TypeStats {
+  total_activities: number;
+  total_distance: number;
+  total_duration: number;
+  total_elevation_gain: number;
+  avg_speed: number;
+  avg_distance: number;
+  avg_duration: number;
+  longest: ActivityHighlight;
+  fastest: ActivityHighlight;
 }
 
 interface Stats {
   total_activities: number;
   total_distance: number;
   total_duration: number;
+  total_elevation_gain: number;
+  avg_speed: number;
+  by_type: Record<string, TypeStats>;
+}
+
+interface PeriodStats {
+  start: string;
+  end: string;
+  count: number;
+  distance: number;
+  duration: number;
   avg_speed: number;
 }
 
 export default function HomeScreen() {
-  const [activities, setActivities] = useState<Activity[]>([]);
+  const [activities, setActivities] = useState<ActivitySummary[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
+  const [weeks, setWeeks] = useState<PeriodStats[]>([]);
+  const [statsType, setStatsType] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { user } = useAuth();
@@ -43,12 +69,16 @@ export default function HomeScreen() {
 
   const loadData = useCallback(async () => {
     try {
-      const [activitiesRes, statsRes] = await Promise.all([
-        api.get('/activities?limit=10'),
+      const [activitiesRes, statsRes, weeksRes] = await Promise.all([
+        api.get('/activities', { params: { limit: 5 } }),
         api.get('/stats'),
+        api.get('/stats/periods', {
+          params: { granularity: 'week', timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+        }),
       ]);
       setActivities(activitiesRes.data);
       setStats(statsRes.data);
+      setWeeks(weeksRes.data.buckets);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -76,28 +106,58 @@ export default function HomeScreen() {
     return `${minutes}m ${secs}s`;
   };
 
-  const formatDistance = (meters: number) => {
-    if (meters >= 1000) {
-      return `${(meters / 1000).toFixed(2)} km`;
-    }
-    return `${Math.round(meters)} m`;
-  };
-
-  const getActivityIcon = (type: string) => {
-    const actType = ACTIVITY_TYPES.find(a => a.id === type);
-    return actType?.icon || 'directions-run';
-  };
-
   const getActivityColor = (type: string) => {
     const actType = ACTIVITY_TYPES.find(a => a.id === type);
     return actType?.color || COLORS.primary;
   };
 
-  const getActivityLabel = (type: string) => {
-    const actType = ACTIVITY_TYPES.find(a => a.id === type);
-    return actType?.label || type;
+  // Speeds are only shown per type, averaging a ride with a run is meaningless
+  const typeStats = statsType ? stats?.by_type[statsType] : undefined;
+  const shownStats = statsType ? typeStats : stats;
+
+  const renderHighlight = (label: string, icon: string, highlight: ActivityHighlight, value: string) => (
+    <TouchableOpacity
+      style={styles.statCard}
+      onPress={() => router.push(`/activity/${highlight.activity_id}`)}
+    >
+      <MaterialIcons name={icon as any} size={24} color={getActivityColor(statsType!)} />
+      <Text style={styles.statValueSmall}>{value}</Text>
+      <Text style={styles.statLabelSmall}>{label}</Text>
+      <Text style={styles.highlightDate}>
+        {format(new Date(highlight.start_time), 'd MMM yyyy', { locale: fr })}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const thisWeek = weeks[weeks.length - 1];
+  const lastWeek = weeks[weeks.length - 2];
+
+  // Change from last week, null when there is nothing to compare with
+  const weekChange = (current: number, previous: number) => {
+    if (previous === 0) return null;
+    return Math.round(((current - previous) / previous) * 100);
   };
 
+  const renderWeekComparison = (label: string, current: string, previous: string, change: number | null) => (
+    <View style={styles.weekStat}>
+      <Text style={styles.weekStatValue}>{current}</Text>
+      <Text style={styles.weekStatLabel}>{label}</Text>
+      {change !== null && (
+        <View style={styles.weekChange}>
+          <MaterialIcons
+            name={change >= 0 ? 'arrow-upward' : 'arrow-downward'}
+            size={12}
+            color={change >= 0 ? COLORS.success : COLORS.error}
+          />
+          <Text style={[styles.weekChangeText, { color: change >= 0 ? COLORS.success : COLORS.error }]}>
+            {Math.abs(change)}%
+          </Text>
+        </View>
+      )}
+      <Text style={styles.weekPrevious}>{previous}</Text>
+    </View>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -132,39 +192,151 @@ export default function HomeScreen() {
           </View>
         </View>
 
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.typeFilters}
+        >
+          <TouchableOpacity
+            style={[styles.typeChip, !statsType && styles.typeChipActive]}
+            onPress={() => setStatsType(null)}
+          >
+            <Text style={[styles.typeChipText, !statsType && { color: COLORS.primary }]}>Tout</Text>
+          </TouchableOpacity>
+          {ACTIVITY_TYPES.map((type) => (
+            <TouchableOpacity
+              key={type.id}
+              style={[
+                styles.typeChip,
+                statsType === type.id && { backgroundColor: type.color + '30', borderColor: type.color },
+              ]}
+              onPress={() => setStatsType(type.id)}
+            >
+              <MaterialIcons
+                name={type.icon as any}
+                size={16}
+                color={statsType === type.id ? type.color : COLORS.textMuted}
+              />
+              <Text style={[styles.typeChipText, statsType === type.id && { color: type.color }]}>
+                {type.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
         <View style={styles.statsContainer}>
           <View style={[styles.statCard, styles.statCardMain]}>
-            <MaterialIcons name="straighten" size={28} color={COLORS.primary} />
-            <Text style={styles.statValue}>{stats?.total_distance.toFixed(1) || '0'}</Text>
+            <MaterialIcons
+              name="straighten"
+              size={28}
+              color={statsType ? getActivityColor(statsType) : COLORS.primary}
+            />
+            <Text style={styles.statValue}>{shownStats?.total_distance.toFixed(1) || '0'}</Text>
             <Text style={styles.statLabel}>km total</Text>
           </View>
           <View style={styles.statsRow}>
             <View style={styles.statCard}>
               <MaterialIcons name="timer" size={24} color={COLORS.secondary} />
               <Text style={styles.statValueSmall}>
-                {stats ? formatDuration(stats.total_duration) : '0m'}
+                {shownStats ? formatDuration(shownStats.total_duration) : '0m'}
               </Text>
               <Text style={styles.statLabelSmall}>Temps total</Text>
             </View>
             <View style={styles.statCard}>
               <MaterialIcons name="flag" size={24} color={COLORS.info} />
-              <Text style={styles.statValueSmall}>{stats?.total_activities || 0}</Text>
+              <Text style={styles.statValueSmall}>{shownStats?.total_activities || 0}</Text>
               <Text style={styles.statLabelSmall}>Activités</Text>
             </View>
-          </View>
-          <View style={styles.statsRow}>
-            <View style={[styles.statCard, { flex: 1 }]}>
-              <MaterialIcons name="speed" size={24} color={COLORS.warning} />
+            <View style={styles.statCard}>
+              <MaterialIcons name="terrain" size={24} color={COLORS.hiking} />
               <Text style={styles.statValueSmall}>
-                {stats?.avg_speed.toFixed(1) || '0'} km/h
+                {Math.round(shownStats?.total_elevation_gain || 0)} m
               </Text>
-              <Text style={styles.statLabelSmall}>Vitesse moyenne</Text>
+              <Text style={styles.statLabelSmall}>Dénivelé +</Text>
             </View>
           </View>
+          {statsType && (
+            <View style={styles.statsRow}>
+              <View style={styles.statCard}>
+                <MaterialIcons name="speed" size={24} color={COLORS.warning} />
+                <Text style={styles.statValueSmall}>
+                  {typeStats?.avg_speed.toFixed(1) || '0'} km/h
+                </Text>
+                <Text style={styles.statLabelSmall}>Vitesse moyenne</Text>
+              </View>
+              <View style={styles.statCard}>
+                <MaterialIcons name="functions" size={24} color={COLORS.info} />
+                <Text style={styles.statValueSmall}>
+                  {typeStats?.avg_distance.toFixed(1) || '0'} km
+                </Text>
+                <Text style={styles.statLabelSmall}>Distance moyenne</Text>
+              </View>
+            </View>
+          )}
+          {typeStats && (
+            <View style={styles.statsRow}>
+              {renderHighlight(
+                'Plus longue',
+                'emoji-events',
+                typeStats.longest,
+                `${typeStats.longest.distance.toFixed(1)} km`
+              )}
+              {renderHighlight(
+                'Plus rapide',
+                'bolt',
+                typeStats.fastest,
+                `${typeStats.fastest.avg_speed.toFixed(1)} km/h`
+              )}
+            </View>
+          )}
         </View>
 
+        {thisWeek && lastWeek && (
+          <View style={styles.weekCard}>
+            <Text style={styles.weekTitle}>Cette semaine</Text>
+            <Text style={styles.weekSubtitle}>par rapport à la semaine dernière</Text>
+            <View style={styles.weekStats}>
+              {renderWeekComparison(
+                'km',
+                thisWeek.distance.toFixed(1),
+                `${lastWeek.distance.toFixed(1)} km`,
+                weekChange(thisWeek.distance, lastWeek.distance)
+              )}
+              {renderWeekComparison(
+                'temps',
+                formatDuration(thisWeek.duration),
+                formatDuration(lastWeek.duration),
+                weekChange(thisWeek.duration, lastWeek.duration)
+              )}
+              {renderWeekComparison(
+                thisWeek.count > 1 ? 'activités' : 'activité',
+                thisWeek.count.toString(),
+                `${lastWeek.count} act.`,
+                weekChange(thisWeek.count, lastWeek.count)
+              )}
+            </View>
+
+            <Text style={styles.chartTitle}>12 dernières semaines (km)</Text>
+            <PeriodBarChart
+              bars={weeks.map((week) => ({
+                key: week.start,
+                label: format(new Date(week.start), 'd/M'),
+                value: week.distance,
+              }))}
+              formatValue={(value) => `${value.toFixed(1)} km`}
+            />
+          </View>
+        )}
+
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Activités récentes</Text>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Activités récentes</Text>
+            {activities.length > 0 && (
+              <TouchableOpacity onPress={() => router.push('/activities')}>
+                <Text style={styles.seeAll}>Tout voir</Text>
+              </TouchableOpacity>
+            )}
+          </View>
           {activities.length === 0 ? (
             <View style={styles.emptyState}>
               <MaterialIcons name="directions-run" size={48} color={COLORS.textMuted} />
@@ -175,41 +347,11 @@ export default function HomeScreen() {
             </View>
           ) : (
             activities.map((activity) => (
-              <TouchableOpacity
+              <ActivityCard
                 key={activity.id}
-                style={styles.activityCard}
+                activity={activity}
                 onPress={() => router.push(`/activity/${activity.id}`)}
-              >
-                <View
-                  style={[
-                    styles.activityIconContainer,
-                    { backgroundColor: getActivityColor(activity.activity_type) + '20' },
-                  ]}
-                >
-                  <MaterialIcons
-                    name={getActivityIcon(activity.activity_type) as any}
-                    size={24}
-                    color={getActivityColor(activity.activity_type)}
-                  />
-                </View>
-                <View style={styles.activityInfo}>
-                  <Text style={styles.activityType}>
-                    {getActivityLabel(activity.activity_type)}
-                  </Text>
-                  <Text style={styles.activityDate}>
-                    {format(new Date(activity.start_time), 'EEEE d MMMM', { locale: fr })}
-                  </Text>
-                </View>
-                <View style={styles.activityStats}>
-                  <Text style={styles.activityDistance}>
-                    {formatDistance(activity.distance)}
-                  </Text>
-                  <Text style={styles.activityDuration}>
-                    {formatDuration(activity.duration)}
-                  </Text>
-                </View>
-                <MaterialIcons name="chevron-right" size={24} color={COLORS.textMuted} />
-              </TouchableOpacity>
+              />
             ))
           )}
         </View>
@@ -258,6 +400,30 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  typeFilters: {
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.surfaceLight,
+    backgroundColor: COLORS.surface,
+  },
+  typeChipActive: {
+    backgroundColor: COLORS.primary + '30',
+    borderColor: COLORS.primary,
+  },
+  typeChipText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
   statsContainer: {
     gap: SPACING.sm,
     marginBottom: SPACING.lg,
@@ -296,73 +462,100 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.sm,
     color: COLORS.textSecondary,
   },
-  section: {
-    marginTop: SPACING.md,
+  weekCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
   },
-  sectionTitle: {
+  weekTitle: {
     fontSize: FONTS.sizes.xl,
     fontWeight: 'bold',
     color: COLORS.textPrimary,
-    marginBottom: SPACING.md,
-  },
-  emptyState: {
-    alignItems: 'center',
-    paddingVertical: SPACING.xxl,
-    backgroundColor: COLORS.surface,
-    borderRadius: BORDER_RADIUS.lg,
   },
-  emptyText: {
-    fontSize: FONTS.sizes.lg,
+  weekSubtitle: {
+    fontSize: FONTS.sizes.sm,
     color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  weekStats: {
+    flexDirection: 'row',
     marginTop: SPACING.md,
+    marginBottom: SPACING.lg,
   },
-  emptySubtext: {
-    fontSize: FONTS.sizes.md,
-    color: COLORS.textMuted,
-    textAlign: 'center',
-    marginTop: SPACING.xs,
-    paddingHorizontal: SPACING.lg,
+  weekStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekStatValue: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  weekStatLabel: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textSecondary,
   },
-  activityCard: {
+  weekChange: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS.surface,
-    borderRadius: BORDER_RADIUS.lg,
-    padding: SPACING.md,
-    marginBottom: SPACING.sm,
+    marginTop: SPACING.xs,
   },
-  activityIconContainer: {
-    width: 48,
-    height: 48,
-    borderRadius: BORDER_RADIUS.md,
-    alignItems: 'center',
-    justifyContent: 'center',
+  weekChangeText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
   },
-  activityInfo: {
-    flex: 1,
-    marginLeft: SPACING.md,
+  weekPrevious: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+    marginTop: 2,
   },
-  activityType: {
-    fontSize: FONTS.sizes.lg,
+  chartTitle: {
+    fontSize: FONTS.sizes.md,
     fontWeight: '600',
     color: COLORS.textPrimary,
+    marginBottom: SPACING.sm,
   },
-  activityDate: {
-    fontSize: FONTS.sizes.sm,
-    color: COLORS.textSecondary,
+  highlightDate: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
     marginTop: 2,
   },
-  activityStats: {
-    alignItems: 'flex-end',
-    marginRight: SPACING.sm,
+  section: {
+    marginTop: SPACING.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
   },
-  activityDistance: {
+  seeAll: {
     fontSize: FONTS.sizes.md,
     fontWeight: '600',
     color: COLORS.primary,
   },
-  activityDuration: {
-    fontSize: FONTS.sizes.sm,
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xxl,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.lg,
     color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+  },
+  emptySubtext: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textMuted,
+    textAlign: 'center',
+    marginTop: SPACING.xs,
+    paddingHorizontal: SPACING.lg,
   },
 });
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,15 +10,35 @@ import {
   ActivityIndicator,
   Platform,
   Linking,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { Image } from 'expo-image';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
 import { useAuth } from '../../src/context/AuthContext';
+import api from '../../src/services/api';
 import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../../src/constants/theme';
 
+interface Session {
+  id: string;
+  device_name: string | null;
+  platform: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+const PLATFORM_ICONS: Record<string, string> = {
+  ios: 'phone-iphone',
+  android: 'phone-android',
+  web: 'computer',
+};
+
 export default function ProfileScreen() {
   const { user, logout, updateProfile } = useAuth();
   const router = useRouter();
@@ -26,6 +46,22 @@ export default function ProfileScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [name, setName] = useState(user?.name || '');
   const [email, setEmail] = useState(user?.email || '');
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await api.get('/auth/sessions');
+      setSessions(response.data);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
 
   const handleLogout = () => {
     Alert.alert(
@@ -45,6 +81,37 @@ export default function ProfileScreen() {
     );
   };
 
+  const handleRevokeSession = (session: Session) => {
+    if (session.current) {
+      handleLogout();
+      return;
+    }
+
+    Alert.alert(
+      "Déconnecter l'appareil",
+      `${session.device_name || 'Appareil inconnu'} sera déconnecté immédiatement.`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Déconnecter',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingSessionId(session.id);
+            try {
+              await api.delete(`/auth/sessions/${session.id}`);
+              setSessions((current) => current.filter((item) => item.id !== session.id));
+            } catch (error: any) {
+              const message = error.response?.data?.detail || 'Impossible de déconnecter cet appareil';
+              Alert.alert('Erreur', message);
+            } finally {
+              setRevokingSessionId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handlePickImage = async () => {
     try {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -87,9 +154,17 @@ export default function ProfileScreen() {
 
     setIsLoading(true);
     try {
+      const emailChanged = email.trim().toLowerCase() !== user?.email;
       await updateProfile({ name, email });
       setIsEditing(false);
-      Alert.alert('Succès', 'Profil mis à jour');
+      // The new email only replaces the current one once confirmed
+      setEmail(user?.email || '');
+      Alert.alert(
+        'Succès',
+        emailChanged
+          ? `Profil mis à jour. Un lien de confirmation a été envoyé à ${email.trim()}.`
+          : 'Profil mis à jour'
+      );
     } catch (error: any) {
       const message = error.response?.data?.detail || 'Erreur lors de la mise à jour';
       Alert.alert('Erreur', message);
@@ -98,6 +173,19 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    try {
+      await api.post('/auth/resend-verification');
+      Alert.alert('Email envoyé', 'Consultez votre boîte de réception pour confirmer votre adresse.');
+    } catch (error: any) {
+      const message = error.response?.data?.detail || "Impossible d'envoyer l'email";
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsResendingVerification(false);
+    }
+  };
+
   const openSettings = async () => {
     if (Platform.OS === 'ios') {
       await Linking.openURL('app-settings:');
@@ -107,6 +195,12 @@ export default function ProfileScreen() {
   };
 
   const menuItems = [
+    {
+      icon: 'lock',
+      label: 'Mot de passe',
+      description: 'Modifier votre mot de passe',
+      onPress: () => router.push('/change-password'),
+    },
     {
       icon: 'location-on',
       label: 'Localisation',
@@ -199,12 +293,50 @@ export default function ProfileScreen() {
             <View style={styles.profileInfo}>
               <Text style={styles.profileName}>{user?.name}</Text>
               <Text style={styles.profileEmail}>{user?.email}</Text>
+              {(!user?.email_verified || !!user?.pending_email) && (
+                <View style={styles.verificationBanner}>
+                  <View style={styles.unverifiedBadge}>
+                    <MaterialIcons name="error-outline" size={14} color={COLORS.warning} />
+                    <Text style={styles.unverifiedBadgeText}>
+                      {user?.pending_email ? 'Changement en attente' : 'Email non vérifié'}
+                    </Text>
+                  </View>
+                  {!!user?.pending_email && (
+                    <Text style={styles.pendingEmail}>
+                      Confirmez {user.pending_email} pour remplacer votre email actuel
+                    </Text>
+                  )}
+                  <TouchableOpacity onPress={handleResendVerification} disabled={isResendingVerification}>
+                    {isResendingVerification ? (
+                      <ActivityIndicator color={COLORS.primary} size="small" />
+                    ) : (
+                      <Text style={styles.resendLink}>Renvoyer le lien de confirmation</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
             </View>
           )}
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Paramètres</Text>
+          <TouchableOpacity style={styles.menuItem} onPress={() => router.push('/two-factor-settings')}>
+            <View style={styles.menuIconContainer}>
+              <MaterialIcons name="security" size={24} color={COLORS.primary} />
+            </View>
+            <View style={styles.menuContent}>
+              <Text style={styles.menuLabel}>Double authentification</Text>
+              <Text style={styles.menuDescription}>
+                {user?.two_factor_enabled ? 'Activée' : 'Code à usage unique à la connexion'}
+              </Text>
+            </View>
+            <Switch
+              value={!!user?.two_factor_enabled}
+              onValueChange={() => router.push('/two-factor-settings')}
+              trackColor={{ false: COLORS.surfaceLight, true: COLORS.primary }}
+            />
+          </TouchableOpacity>
           {menuItems.map((item, index) => (
             <TouchableOpacity
               key={index}
@@ -223,6 +355,38 @@ export default function ProfileScreen() {
           ))}
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Appareils connectés</Text>
+          {sessions.map((session) => (
+            <View key={session.id} style={styles.menuItem}>
+              <View style={styles.menuIconContainer}>
+                <MaterialIcons
+                  name={(PLATFORM_ICONS[session.platform || ''] || 'devices') as any}
+                  size={24}
+                  color={COLORS.primary}
+                />
+              </View>
+              <View style={styles.menuContent}>
+                <Text style={styles.menuLabel}>
+                  {session.device_name || 'Appareil inconnu'}
+                  {session.current && <Text style={styles.currentSession}> · Cet appareil</Text>}
+                </Text>
+                <Text style={styles.menuDescription}>
+                  {formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true, locale: fr })}
+                  {session.ip ? ` · ${session.ip}` : ''}
+                </Text>
+              </View>
+              {revokingSessionId === session.id ? (
+                <ActivityIndicator color={COLORS.error} size="small" />
+              ) : (
+                <TouchableOpacity onPress={() => handleRevokeSession(session)}>
+                  <MaterialIcons name="logout" size={22} color={COLORS.error} />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
           <MaterialIcons name="logout" size={24} color={COLORS.error} />
           <Text style={styles.logoutText}>Déconnexion</Text>
@@ -303,6 +467,35 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     marginTop: SPACING.xs,
   },
+  verificationBanner: {
+    alignItems: 'center',
+    marginTop: SPACING.md,
+    gap: SPACING.xs,
+  },
+  unverifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    backgroundColor: COLORS.warning + '20',
+    borderRadius: BORDER_RADIUS.full,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  unverifiedBadgeText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.warning,
+  },
+  pendingEmail: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  resendLink: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
   editForm: {
     width: '100%',
     gap: SPACING.sm,
@@ -375,6 +568,11 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.sm,
     color: COLORS.textSecondary,
   },
+  currentSession: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: 'normal',
+    color: COLORS.primary,
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9,6 +9,8 @@ import {
   AppState,
   Dimensions,
   Vibration,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -18,6 +20,9 @@ import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../../src
 import api from '../../src/services/api';
 import NativeMap from '../../src/components/NativeMap';
 import { liveActivityService } from '../../src/services/liveActivityService';
+import { calculateDistance, calculateTotalDistance } from '../../src/utils/geo';
+import { describeNewRecords, NewRecord } from '../../src/utils/records';
+import { defaultActivityTitle } from '../../src/utils/activityTitle';
 
 interface GPSPoint {
   latitude: number;
@@ -58,6 +63,8 @@ export default function RecordScreen() {
   const [currentSpeed, setCurrentSpeed] = useState(0);
   const [hasPermission, setHasPermission] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [showSaveSheet, setShowSaveSheet] = useState(false);
+  const [activityTitle, setActivityTitle] = useState('');
   const [currentLocation, setCurrentLocation] = useState<GPSPoint | null>(null);
   const [mapRegion, setMapRegion] = useState<Region>({
     latitude: 48.8566,
@@ -264,34 +271,6 @@ export default function RecordScreen() {
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3;
-    const phi1 = (lat1 * Math.PI) / 180;
-    const phi2 = (lat2 * Math.PI) / 180;
-    const deltaPhi = ((lat2 - lat1) * Math.PI) / 180;
-    const deltaLambda = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
-      Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
-  const calculateTotalDistance = (points: GPSPoint[]): number => {
-    let total = 0;
-    for (let i = 1; i < points.length; i++) {
-      total += calculateDistance(
-        points[i - 1].latitude,
-        points[i - 1].longitude,
-        points[i].latitude,
-        points[i].longitude
-      );
-    }
-    return total;
-  };
-
   const startForegroundTracking = async () => {
     try {
       locationSubscription.current = await Location.watchPositionAsync(
@@ -474,12 +453,23 @@ export default function RecordScreen() {
         },
         {
           text: 'Sauvegarder',
-          onPress: saveActivity,
+          onPress: openSaveSheet,
         },
       ]
     );
   };
 
+  // Let the user name the activity before it is uploaded
+  const openSaveSheet = () => {
+    setActivityTitle(defaultActivityTitle(activityType, startTimeRef.current || new Date()));
+    setShowSaveSheet(true);
+  };
+
+  const confirmSave = () => {
+    setShowSaveSheet(false);
+    saveActivity();
+  };
+
   const resetRecording = async () => {
     cleanupTracking();
     
@@ -524,6 +514,9 @@ export default function RecordScreen() {
 
       const activityData = {
         activity_type: activityType,
+        // Left out when cleared, the API then generates the default title
+        title: activityTitle.trim() || undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         gps_points: finalPoints.map((point) => ({
           latitude: point.latitude,
           longitude: point.longitude,
@@ -539,7 +532,8 @@ export default function RecordScreen() {
         end_time: new Date().toISOString(),
       };
 
-      await api.post('/activities', activityData);
+      const response = await api.post('/activities', activityData);
+      const newRecords: NewRecord[] = response.data.new_records || [];
 
       // End Live Activity with final stats
       if (Platform.OS === 'ios') {
@@ -557,7 +551,15 @@ export default function RecordScreen() {
         Vibration.vibrate([100, 100, 100, 100, 100]);
       }
       
-      Alert.alert('Succès 🎉', 'Activité sauvegardée !', [
+      const [title, message] =
+        newRecords.length > 0
+          ? [
+              newRecords.length > 1 ? 'Nouveaux records 🏆' : 'Nouveau record 🏆',
+              `Activité sauvegardée !\n\n${describeNewRecords(newRecords)}`,
+            ]
+          : ['Succès 🎉', 'Activité sauvegardée !'];
+
+      Alert.alert(title, message, [
         {
           text: 'Voir',
           onPress: () => {
@@ -572,9 +574,10 @@ export default function RecordScreen() {
           },
         },
       ]);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving activity:', error);
-      Alert.alert('Erreur', "Impossible de sauvegarder l'activité.");
+      const message = error.response?.data?.detail || "Impossible de sauvegarder l'activité.";
+      Alert.alert('Erreur', message);
     } finally {
       setIsSaving(false);
     }
@@ -772,6 +775,47 @@ export default function RecordScreen() {
           </TouchableOpacity>
         )}
       </View>
+
+      {/* Save Sheet */}
+      <Modal
+        visible={showSaveSheet}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowSaveSheet(false)}
+      >
+        <View style={styles.sheetOverlay}>
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>{"Nommer l'activité"}</Text>
+            <View style={styles.sheetInputContainer}>
+              <MaterialIcons name="edit" size={20} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.sheetInput}
+                value={activityTitle}
+                onChangeText={setActivityTitle}
+                placeholder="Titre"
+                placeholderTextColor={COLORS.textMuted}
+                maxLength={100}
+                autoFocus
+                selectTextOnFocus
+                returnKeyType="done"
+                onSubmitEditing={confirmSave}
+              />
+            </View>
+            <View style={styles.sheetActions}>
+              <TouchableOpacity style={styles.sheetCancelButton} onPress={() => setShowSaveSheet(false)}>
+                <Text style={styles.sheetCancelText}>Annuler</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.sheetSaveButton, { backgroundColor: getActivityColor(activityType) }]}
+                onPress={confirmSave}
+                disabled={isSaving}
+              >
+                <Text style={styles.sheetSaveText}>Sauvegarder</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -974,6 +1018,66 @@ const styles = StyleSheet.create({
     gap: SPACING.sm,
     marginTop: SPACING.sm,
   },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: COLORS.surface,
+    borderTopLeftRadius: BORDER_RADIUS.xl,
+    borderTopRightRadius: BORDER_RADIUS.xl,
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  sheetTitle: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  sheetInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  sheetInput: {
+    flex: 1,
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.xs,
+  },
+  sheetActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  sheetCancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  sheetCancelText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  sheetSaveButton: {
+    flex: 1,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  sheetSaveText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
   permissionText: {
     fontSize: FONTS.sizes.sm,
     color: COLORS.warning,
@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../src/constants/theme';
+import api from '../src/services/api';
+import ActivityCard, { ActivitySummary } from '../src/components/ActivityCard';
+
+type SortKey = 'date' | 'distance' | 'duration' | 'speed';
+
+const SORT_OPTIONS: { id: SortKey; label: string }[] = [
+  { id: 'date', label: 'Date' },
+  { id: 'distance', label: 'Distance' },
+  { id: 'duration', label: 'Durée' },
+  { id: 'speed', label: 'Vitesse' },
+];
+
+const PAGE_SIZE = 20;
+
+// Full activity history with type filter and sorting, loaded page by page
+export default function ActivitiesScreen() {
+  const router = useRouter();
+  const [activities, setActivities] = useState<ActivitySummary[]>([]);
+  const [activityType, setActivityType] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortKey>('date');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Ids picked for a bulk action, null outside selection mode
+  const [selection, setSelection] = useState<string[] | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  // Responses of a previous filter are ignored once the filter changed
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(
+    (cursor?: string) =>
+      api.get('/activities', {
+        params: {
+          limit: PAGE_SIZE,
+          sort,
+          ...(activityType ? { activity_type: activityType } : {}),
+          ...(cursor ? { cursor } : {}),
+        },
+      }),
+    [activityType, sort]
+  );
+
+  const loadFirstPage = useCallback(async () => {
+    const id = ++requestId.current;
+    try {
+      const response = await fetchPage();
+      if (id !== requestId.current) return;
+      setActivities(response.data);
+      setNextCursor(response.headers['x-next-cursor'] || null);
+    } catch (error) {
+      console.error('Error loading activities:', error);
+    } finally {
+      if (id === requestId.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setActivities([]);
+    setNextCursor(null);
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore || isLoading) return;
+
+    const id = requestId.current;
+    setIsLoadingMore(true);
+    try {
+      const response = await fetchPage(nextCursor);
+      if (id !== requestId.current) return;
+      setActivities((previous) => [...previous, ...response.data]);
+      setNextCursor(response.headers['x-next-cursor'] || null);
+    } catch (error) {
+      console.error('Error loading more activities:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleSelected = (activityId: string) => {
+    setSelection((current) =>
+      current && current.includes(activityId)
+        ? current.filter((id) => id !== activityId)
+        : [...(current || []), activityId]
+    );
+  };
+
+  const handleDeleteSelected = () => {
+    if (!selection || selection.length === 0) return;
+
+    Alert.alert(
+      'Supprimer les activités',
+      `${selection.length} activité(s) resteront 30 jours dans la corbeille.`,
+      [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Mettre à la corbeille',
+          style: 'destructive',
+          onPress: async () => {
+            setIsDeleting(true);
+            try {
+              const response = await api.post('/activities/trash', { activity_ids: selection });
+              const trashed: string[] = response.data.activity_ids;
+              setActivities((previous) => previous.filter((activity) => !trashed.includes(activity.id)));
+              setSelection(null);
+            } catch (error) {
+              console.error('Error deleting activities:', error);
+              Alert.alert('Erreur', 'Impossible de supprimer les activités');
+            } finally {
+              setIsDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const onRefresh = () => {
+    setIsRefreshing(true);
+    loadFirstPage();
+  };
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, !activityType && styles.chipActive]}
+          onPress={() => setActivityType(null)}
+        >
+          <Text style={[styles.chipText, !activityType && { color: COLORS.primary }]}>Tout</Text>
+        </TouchableOpacity>
+        {ACTIVITY_TYPES.map((type) => (
+          <TouchableOpacity
+            key={type.id}
+            style={[
+              styles.chip,
+              activityType === type.id && { backgroundColor: type.color + '30', borderColor: type.color },
+            ]}
+            onPress={() => setActivityType(type.id)}
+          >
+            <MaterialIcons
+              name={type.icon as any}
+              size={16}
+              color={activityType === type.id ? type.color : COLORS.textMuted}
+            />
+            <Text style={[styles.chipText, activityType === type.id && { color: type.color }]}>
+              {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <MaterialIcons name="sort" size={18} color={COLORS.textMuted} style={styles.sortIcon} />
+        {SORT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, sort === option.id && styles.chipActive]}
+            onPress={() => setSort(option.id)}
+          >
+            <Text style={[styles.chipText, sort === option.id && { color: COLORS.primary }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {selection ? (
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => setSelection(null)}>
+            <MaterialIcons name="close" size={24} color={COLORS.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{selection.length} sélectionnée(s)</Text>
+          <TouchableOpacity
+            style={[styles.backButton, styles.deleteButton]}
+            onPress={handleDeleteSelected}
+            disabled={isDeleting || selection.length === 0}
+          >
+            {isDeleting ? (
+              <ActivityIndicator size="small" color={COLORS.error} />
+            ) : (
+              <MaterialIcons name="delete" size={24} color={COLORS.error} />
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Toutes les activités</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.push('/trash')}>
+            <MaterialIcons name="delete-outline" size={24} color={COLORS.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {renderFilters()}
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={activities}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <ActivityCard
+              activity={item}
+              selected={selection ? selection.includes(item.id) : undefined}
+              onPress={() => (selection ? toggleSelected(item.id) : router.push(`/activity/${item.id}`))}
+              onLongPress={() => toggleSelected(item.id)}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} tintColor={COLORS.primary} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <MaterialIcons name="directions-run" size={48} color={COLORS.textMuted} />
+              <Text style={styles.emptyText}>Aucune activité</Text>
+            </View>
+          }
+          ListFooterComponent={
+            isLoadingMore ? <ActivityIndicator style={styles.footer} color={COLORS.primary} /> : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  deleteButton: {
+    backgroundColor: COLORS.error + '20',
+  },
+  filters: {
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  chips: {
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.surfaceLight,
+    backgroundColor: COLORS.surface,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary + '30',
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  sortIcon: {
+    marginRight: -SPACING.xs,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listContent: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xxl,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xxl,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+  },
+  footer: {
+    paddingVertical: SPACING.md,
+  },
+});
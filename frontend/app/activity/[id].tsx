@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -14,9 +14,16 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
 import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../../src/constants/theme';
 import api from '../../src/services/api';
 import NativeMap from '../../src/components/NativeMap';
+import ProfileChart from '../../src/components/ProfileChart';
+import ActivityEditForm, { ActivityMetadataChanges } from '../../src/components/ActivityEditForm';
+import RangeSlider from '../../src/components/RangeSlider';
+import { buildProfile } from '../../src/utils/profile';
+import { bestEffortLabel, formatEffortTime } from '../../src/utils/records';
 
 interface GPSPoint {
   latitude: number;
@@ -27,18 +34,72 @@ interface GPSPoint {
   timestamp: string;
 }
 
+interface BestEffort {
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  start_index: number;
+  end_index: number;
+  start_time: string;
+  pr_rank: number | null;
+}
+
+interface Split {
+  index: number;
+  distance: number;
+  elapsed_time: number;
+  pace: number;
+  avg_speed: number;
+  elevation_delta: number | null;
+}
+
+interface SplitsResponse {
+  unit: SplitUnit;
+  splits: Split[];
+  laps: Split[];
+}
+
+type SplitUnit = 'km' | 'mi';
+
+interface ActivityStop {
+  start_time: string;
+  end_time: string;
+  duration: number;
+  latitude: number;
+  longitude: number;
+}
+
+const SPLIT_UNIT_METERS: Record<SplitUnit, number> = { km: 1000, mi: 1609.344 };
+
 interface Activity {
   id: string;
   activity_type: string;
+  title?: string;
+  description?: string | null;
+  perceived_exertion?: number | null;
+  tags?: string[];
   gps_points: GPSPoint[];
   distance: number;
   duration: number;
+  // Missing on activities saved before stops were detected
+  elapsed_time?: number;
+  moving_time?: number;
+  // Over the moving time
   avg_speed: number;
+  stops?: ActivityStop[];
   start_time: string;
   end_time: string;
   created_at: string;
+  cropped_at?: string;
+  elevation_gain?: number | null;
+  elevation_loss?: number | null;
+  min_altitude?: number | null;
+  max_altitude?: number | null;
+  best_efforts?: BestEffort[];
 }
 
+const PR_RANK_LABELS = ['Record', '2e temps', '3e temps'];
+
 const { width } = Dimensions.get('window');
 
 export default function ActivityDetailScreen() {
@@ -47,11 +108,40 @@ export default function ActivityDetailScreen() {
   const [activity, setActivity] = useState<Activity | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSavingMetadata, setIsSavingMetadata] = useState(false);
+  // Kept point indices while choosing a crop
+  const [cropRange, setCropRange] = useState<{ start: number; end: number } | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  // Bumped when the track changes so the splits are fetched again
+  const [trackVersion, setTrackVersion] = useState(0);
+  const [splitUnit, setSplitUnit] = useState<SplitUnit>('km');
+  const [splits, setSplits] = useState<SplitsResponse | null>(null);
+  const [showLaps, setShowLaps] = useState(false);
+  const [profileMetric, setProfileMetric] = useState<'altitude' | 'speed'>('altitude');
+  const [scrubIndex, setScrubIndex] = useState<number | null>(null);
+
+  const profile = useMemo(() => (activity ? buildProfile(activity.gps_points) : []), [activity]);
+  const hasAltitude = profile.some((sample) => sample.altitude !== null);
+  const scrubbedPoint =
+    activity && scrubIndex !== null ? activity.gps_points[profile[scrubIndex].pointIndex] : null;
+  const mapHighlight = useMemo(
+    () => (scrubbedPoint ? { latitude: scrubbedPoint.latitude, longitude: scrubbedPoint.longitude } : null),
+    [scrubbedPoint]
+  );
 
   useEffect(() => {
     loadActivity();
   }, [id]);
 
+  useEffect(() => {
+    api
+      .get(`/activities/${id}/splits`, { params: { unit: splitUnit } })
+      .then((response) => setSplits(response.data))
+      .catch((error) => console.error('Error loading splits:', error));
+  }, [id, splitUnit, trackVersion]);
+
   const loadActivity = async () => {
     try {
       const response = await api.get(`/activities/${id}`);
@@ -69,17 +159,17 @@ export default function ActivityDetailScreen() {
   const handleDelete = () => {
     Alert.alert(
       "Supprimer l'activité",
-      'Êtes-vous sûr de vouloir supprimer cette activité ?',
+      "Elle restera 30 jours dans la corbeille avant d'être supprimée définitivement.",
       [
         { text: 'Annuler', style: 'cancel' },
         {
-          text: 'Supprimer',
+          text: 'Mettre à la corbeille',
           style: 'destructive',
           onPress: async () => {
             setIsDeleting(true);
             try {
               await api.delete(`/activities/${id}`);
-              Alert.alert('Succès', 'Activité supprimée', [
+              Alert.alert('Succès', 'Activité placée dans la corbeille', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
             } catch (error) {
@@ -92,6 +182,96 @@ export default function ActivityDetailScreen() {
     );
   };
 
+  const handleSaveMetadata = async (metadata: ActivityMetadataChanges) => {
+    setIsSavingMetadata(true);
+    try {
+      const response = await api.patch(`/activities/${id}`, metadata);
+      setActivity(response.data);
+      setIsEditing(false);
+    } catch (error: any) {
+      console.error('Error updating activity:', error);
+      const message = error.response?.data?.detail || "Impossible de modifier l'activité";
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsSavingMetadata(false);
+    }
+  };
+
+  const handleCrop = async () => {
+    if (!activity || !cropRange) return;
+
+    setIsCropping(true);
+    try {
+      const response = await api.post(`/activities/${id}/crop`, {
+        start_index: cropRange.start,
+        end_index: cropRange.end,
+      });
+      setActivity(response.data);
+      setCropRange(null);
+      setScrubIndex(null);
+      setTrackVersion((version) => version + 1);
+    } catch (error: any) {
+      console.error('Error cropping activity:', error);
+      const message = error.response?.data?.detail || "Impossible de recadrer l'activité";
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsCropping(false);
+    }
+  };
+
+  const handleUndoCrop = () => {
+    Alert.alert('Annuler le recadrage', "Restaurer la trace complète de l'activité ?", [
+      { text: 'Annuler', style: 'cancel' },
+      {
+        text: 'Restaurer',
+        onPress: async () => {
+          setIsCropping(true);
+          try {
+            const response = await api.delete(`/activities/${id}/crop`);
+            setActivity(response.data);
+            setScrubIndex(null);
+            setTrackVersion((version) => version + 1);
+          } catch (error) {
+            console.error('Error restoring activity:', error);
+            Alert.alert('Erreur', 'Impossible de restaurer la trace');
+          } finally {
+            setIsCropping(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Erreur', "Le partage n'est pas disponible sur cet appareil");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const response = await api.get(`/activities/${id}/export`, {
+        params: { format: 'gpx' },
+        responseType: 'text',
+      });
+
+      const file = new File(Paths.cache, `strive-${id}.gpx`);
+      file.create({ overwrite: true });
+      file.write(response.data);
+
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'application/gpx+xml',
+        UTI: 'com.topografix.gpx',
+        dialogTitle: "Exporter l'activité",
+      });
+    } catch (error) {
+      console.error('Error exporting activity:', error);
+      Alert.alert('Erreur', "Impossible d'exporter l'activité");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -121,6 +301,117 @@ export default function ActivityDetailScreen() {
     return actType?.label || type;
   };
 
+  // Pace as 5:32 per unit
+  const formatPace = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+  };
+
+  // km/h shown as speed or as pace per km
+  const formatSpeed = (kmh: number, asPace: boolean) => {
+    if (!asPace) return `${kmh.toFixed(1)} km/h`;
+    return kmh > 0 ? `${formatPace(Math.round(3600 / kmh))} /km` : '-';
+  };
+
+  const renderSplits = (rows: Split[], unit: SplitUnit) => {
+    // Short trailing splits are not compared
+    const comparable = rows.filter((split) => split.distance >= SPLIT_UNIT_METERS[unit] / 2);
+    const fastest = comparable.reduce<Split | null>(
+      (best, split) => (!best || split.avg_speed > best.avg_speed ? split : best),
+      null
+    );
+    const maxSpeed = Math.max(...rows.map((split) => split.avg_speed), 0);
+
+    return (
+      <View style={styles.splitsCard}>
+        <View style={styles.splitHeaderRow}>
+          <Text style={[styles.splitHeader, styles.splitIndex]}>{unit === 'km' ? 'Km' : 'Mi'}</Text>
+          <Text style={[styles.splitHeader, styles.splitPace]}>Allure</Text>
+          <Text style={[styles.splitHeader, styles.splitElevation]}>Dén.</Text>
+          <Text style={[styles.splitHeader, styles.splitSpeed]}>km/h</Text>
+        </View>
+        {rows.map((split) => {
+          const isFastest = split === fastest;
+          return (
+            <View key={split.index} style={styles.splitRow}>
+              <Text style={[styles.splitCell, styles.splitIndex]}>
+                {split.distance < SPLIT_UNIT_METERS[unit] * 0.99
+                  ? (split.distance / SPLIT_UNIT_METERS[unit]).toFixed(2)
+                  : split.index}
+              </Text>
+              <View style={styles.splitPace}>
+                <View
+                  style={[
+                    styles.splitBar,
+                    {
+                      width: `${maxSpeed > 0 ? (split.avg_speed / maxSpeed) * 100 : 0}%`,
+                      backgroundColor: isFastest ? COLORS.primary : COLORS.primary + '40',
+                    },
+                  ]}
+                />
+                <Text style={[styles.splitCell, styles.splitPaceText, isFastest && styles.splitFastest]}>
+                  {formatPace(split.pace)} /{unit}
+                </Text>
+              </View>
+              <Text style={[styles.splitCell, styles.splitElevation]}>
+                {split.elevation_delta === null
+                  ? '-'
+                  : `${split.elevation_delta > 0 ? '+' : ''}${Math.round(split.elevation_delta)} m`}
+              </Text>
+              <Text style={[styles.splitCell, styles.splitSpeed, isFastest && styles.splitFastest]}>
+                {split.avg_speed.toFixed(1)}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderCropPanel = (points: GPSPoint[], range: { start: number; end: number }) => {
+    const startTime = new Date(points[range.start].timestamp);
+    const endTime = new Date(points[range.end].timestamp);
+    const kept = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+
+    return (
+      <View style={styles.cropCard}>
+        <Text style={styles.cropTitle}>Recadrer</Text>
+        <RangeSlider
+          max={points.length - 1}
+          start={range.start}
+          end={range.end}
+          color={getActivityColor(activity!.activity_type)}
+          onChange={(start, end) => setCropRange({ start, end })}
+        />
+        <View style={styles.cropTimes}>
+          <Text style={styles.cropTime}>{format(startTime, 'HH:mm:ss')}</Text>
+          <Text style={styles.cropDuration}>{formatDuration(kept)}</Text>
+          <Text style={styles.cropTime}>{format(endTime, 'HH:mm:ss')}</Text>
+        </View>
+        <View style={styles.cropActions}>
+          <TouchableOpacity
+            style={styles.cropCancelButton}
+            onPress={() => setCropRange(null)}
+            disabled={isCropping}
+          >
+            <Text style={styles.cropCancelText}>Annuler</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.cropSaveButton, isCropping && styles.buttonDisabled]}
+            onPress={handleCrop}
+            disabled={isCropping || (range.start === 0 && range.end === points.length - 1)}
+          >
+            {isCropping ? (
+              <ActivityIndicator color={COLORS.background} size="small" />
+            ) : (
+              <Text style={styles.cropSaveText}>Recadrer</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   const getMapRegion = () => {
     if (!activity || activity.gps_points.length === 0) {
       return {
@@ -175,6 +466,9 @@ export default function ActivityDetailScreen() {
   }
 
   const activityColor = getActivityColor(activity.activity_type);
+  // Runners and walkers think in pace, cyclists in speed
+  const usesPace = activity.activity_type !== 'cycling';
+  const shownMetric = hasAltitude ? profileMetric : 'speed';
   const coordinates = activity.gps_points.map((p) => ({
     latitude: p.latitude,
     longitude: p.longitude,
@@ -188,35 +482,84 @@ export default function ActivityDetailScreen() {
           <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Détail de l'activité</Text>
-        <TouchableOpacity
-          style={styles.deleteButton}
-          onPress={handleDelete}
-          disabled={isDeleting}
-        >
-          {isDeleting ? (
-            <ActivityIndicator size="small" color={COLORS.error} />
-          ) : (
-            <MaterialIcons name="delete" size={24} color={COLORS.error} />
-          )}
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={() => setIsEditing(!isEditing)}
+            disabled={isSavingMetadata}
+          >
+            <MaterialIcons name={isEditing ? 'close' : 'edit'} size={22} color={COLORS.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={() =>
+              setCropRange(cropRange ? null : { start: 0, end: activity.gps_points.length - 1 })
+            }
+            disabled={isCropping || activity.gps_points.length < 3}
+          >
+            <MaterialIcons name={cropRange ? 'close' : 'content-cut'} size={22} color={COLORS.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color={COLORS.primary} />
+            ) : (
+              <MaterialIcons name="share" size={22} color={COLORS.primary} />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={handleDelete}
+            disabled={isDeleting}
+          >
+            {isDeleting ? (
+              <ActivityIndicator size="small" color={COLORS.error} />
+            ) : (
+              <MaterialIcons name="delete" size={24} color={COLORS.error} />
+            )}
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        scrollEnabled={scrubIndex === null}
       >
-        {/* Activity Type Badge */}
-        <View style={[styles.activityBadge, { backgroundColor: activityColor + '20' }]}>
-          <MaterialIcons
-            name={getActivityIcon(activity.activity_type) as any}
-            size={28}
-            color={activityColor}
+        {isEditing ? (
+          <ActivityEditForm
+            initial={{
+              title: activity.title || getActivityLabel(activity.activity_type),
+              description: activity.description ?? null,
+              activity_type: activity.activity_type,
+              perceived_exertion: activity.perceived_exertion ?? null,
+              tags: activity.tags || [],
+            }}
+            isSaving={isSavingMetadata}
+            onSave={handleSaveMetadata}
+            onCancel={() => setIsEditing(false)}
           />
-          <Text style={[styles.activityBadgeText, { color: activityColor }]}>
-            {getActivityLabel(activity.activity_type)}
-          </Text>
-        </View>
+        ) : (
+          <>
+            {!!activity.title && <Text style={styles.activityTitle}>{activity.title}</Text>}
+
+            {/* Activity Type Badge */}
+            <View style={[styles.activityBadge, { backgroundColor: activityColor + '20' }]}>
+              <MaterialIcons
+                name={getActivityIcon(activity.activity_type) as any}
+                size={28}
+                color={activityColor}
+              />
+              <Text style={[styles.activityBadgeText, { color: activityColor }]}>
+                {getActivityLabel(activity.activity_type)}
+              </Text>
+            </View>
+          </>
+        )}
 
         {/* Date & Time */}
         <View style={styles.dateContainer}>
@@ -227,6 +570,30 @@ export default function ActivityDetailScreen() {
           </Text>
         </View>
 
+        {!isEditing &&
+          (!!activity.description || activity.perceived_exertion != null || (activity.tags?.length ?? 0) > 0) && (
+            <View style={styles.notesCard}>
+              {!!activity.description && <Text style={styles.descriptionText}>{activity.description}</Text>}
+              {(activity.perceived_exertion != null || (activity.tags?.length ?? 0) > 0) && (
+                <View style={styles.tagsRow}>
+                  {activity.perceived_exertion != null && (
+                    <View style={[styles.tag, styles.exertionTag]}>
+                      <MaterialIcons name="whatshot" size={14} color={COLORS.warning} />
+                      <Text style={[styles.tagText, { color: COLORS.warning }]}>
+                        Effort {activity.perceived_exertion}/10
+                      </Text>
+                    </View>
+                  )}
+                  {activity.tags?.map((tag) => (
+                    <View key={tag} style={styles.tag}>
+                      <Text style={styles.tagText}>#{tag}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
         {/* Map */}
         <View style={styles.mapContainer}>
           <NativeMap
@@ -236,6 +603,13 @@ export default function ActivityDetailScreen() {
             showStartMarker={true}
             showEndMarker={true}
             showUserLocation={false}
+            highlight={mapHighlight}
+            selection={cropRange}
+            stops={(activity.stops || []).map((stop) => ({
+              latitude: stop.latitude,
+              longitude: stop.longitude,
+              label: `Arrêt de ${formatDuration(stop.duration)}`,
+            }))}
           />
           {/* Map Legend */}
           <View style={styles.mapLegend}>
@@ -247,6 +621,12 @@ export default function ActivityDetailScreen() {
               <View style={[styles.legendDot, { backgroundColor: '#F44336' }]} />
               <Text style={styles.legendText}>Arrivée</Text>
             </View>
+            {!!activity.stops?.length && (
+              <View style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: COLORS.warning }]} />
+                <Text style={styles.legendText}>Arrêts</Text>
+              </View>
+            )}
             <View style={styles.legendItem}>
               <View style={[styles.legendLine, { backgroundColor: activityColor }]} />
               <Text style={styles.legendText}>Parcours</Text>
@@ -254,6 +634,18 @@ export default function ActivityDetailScreen() {
           </View>
         </View>
 
+        {cropRange && renderCropPanel(activity.gps_points, cropRange)}
+
+        {!cropRange && !!activity.cropped_at && (
+          <View style={styles.croppedBanner}>
+            <MaterialIcons name="content-cut" size={18} color={COLORS.info} />
+            <Text style={styles.croppedText}>Trace recadrée</Text>
+            <TouchableOpacity onPress={handleUndoCrop} disabled={isCropping}>
+              <Text style={styles.croppedUndo}>Restaurer</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Stats */}
         <View style={styles.statsContainer}>
           <View style={styles.mainStatCard}>
@@ -267,14 +659,27 @@ export default function ActivityDetailScreen() {
           <View style={styles.statsRow}>
             <View style={styles.statCard}>
               <MaterialIcons name="timer" size={24} color={COLORS.secondary} />
-              <Text style={styles.statValue}>{formatDuration(activity.duration)}</Text>
-              <Text style={styles.statLabel}>Durée</Text>
+              <Text style={styles.statValue}>{formatDuration(activity.moving_time ?? activity.duration)}</Text>
+              <Text style={styles.statLabel}>Temps en mouvement</Text>
             </View>
+            <View style={styles.statCard}>
+              <MaterialIcons name="schedule" size={24} color={COLORS.textSecondary} />
+              <Text style={styles.statValue}>{formatDuration(activity.elapsed_time ?? activity.duration)}</Text>
+              <Text style={styles.statLabel}>Temps écoulé</Text>
+            </View>
+          </View>
+
+          <View style={styles.statsRow}>
             <View style={styles.statCard}>
               <MaterialIcons name="speed" size={24} color={COLORS.warning} />
               <Text style={styles.statValue}>{activity.avg_speed.toFixed(1)} km/h</Text>
               <Text style={styles.statLabel}>Vitesse moy.</Text>
             </View>
+            <View style={styles.statCard}>
+              <MaterialIcons name="trending-up" size={24} color={COLORS.hiking} />
+              <Text style={styles.statValue}>{formatSpeed(activity.avg_speed, true)}</Text>
+              <Text style={styles.statLabel}>Allure</Text>
+            </View>
           </View>
 
           <View style={styles.statsRow}>
@@ -284,17 +689,152 @@ export default function ActivityDetailScreen() {
               <Text style={styles.statLabel}>Points GPS</Text>
             </View>
             <View style={styles.statCard}>
-              <MaterialIcons name="trending-up" size={24} color={COLORS.hiking} />
-              <Text style={styles.statValue}>
-                {activity.duration > 0
-                  ? (activity.distance / activity.duration).toFixed(2)
-                  : '0'}{' '}
-                m/s
-              </Text>
-              <Text style={styles.statLabel}>Allure</Text>
+              <MaterialIcons name="pause-circle-outline" size={24} color={COLORS.warning} />
+              <Text style={styles.statValue}>{activity.stops?.length ?? 0}</Text>
+              <Text style={styles.statLabel}>Arrêts</Text>
             </View>
           </View>
+
+          {activity.elevation_gain != null && (
+            <View style={styles.statsRow}>
+              <View style={styles.statCard}>
+                <MaterialIcons name="north-east" size={24} color={COLORS.success} />
+                <Text style={styles.statValue}>+{Math.round(activity.elevation_gain)} m</Text>
+                <Text style={styles.statLabel}>Dénivelé +</Text>
+              </View>
+              <View style={styles.statCard}>
+                <MaterialIcons name="south-east" size={24} color={COLORS.error} />
+                <Text style={styles.statValue}>-{Math.round(activity.elevation_loss ?? 0)} m</Text>
+                <Text style={styles.statLabel}>Dénivelé -</Text>
+              </View>
+              <View style={styles.statCard}>
+                <MaterialIcons name="landscape" size={24} color={COLORS.hiking} />
+                <Text style={styles.statValue}>
+                  {Math.round(activity.min_altitude ?? 0)}-{Math.round(activity.max_altitude ?? 0)}
+                </Text>
+                <Text style={styles.statLabel}>Altitude (m)</Text>
+              </View>
+            </View>
+          )}
         </View>
+
+        {/* Profile */}
+        {profile.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Profil</Text>
+              <View style={styles.segmentedControl}>
+                {hasAltitude && (
+                  <TouchableOpacity
+                    style={[styles.segment, shownMetric === 'altitude' && styles.segmentActive]}
+                    onPress={() => setProfileMetric('altitude')}
+                  >
+                    <Text style={[styles.segmentText, shownMetric === 'altitude' && styles.segmentTextActive]}>
+                      Altitude
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.segment, shownMetric === 'speed' && styles.segmentActive]}
+                  onPress={() => setProfileMetric('speed')}
+                >
+                  <Text style={[styles.segmentText, shownMetric === 'speed' && styles.segmentTextActive]}>
+                    {usesPace ? 'Allure' : 'Vitesse'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            <View style={styles.profileCard}>
+              {shownMetric === 'altitude' ? (
+                <ProfileChart
+                  points={profile.map((sample) => ({ distance: sample.distance, value: sample.altitude }))}
+                  color={COLORS.hiking}
+                  formatValue={(value) => `${Math.round(value)} m`}
+                  onScrub={setScrubIndex}
+                />
+              ) : (
+                <ProfileChart
+                  points={profile.map((sample) => ({ distance: sample.distance, value: sample.speed }))}
+                  color={activityColor}
+                  formatValue={(value) => formatSpeed(value, usesPace)}
+                  fromZero
+                  onScrub={setScrubIndex}
+                />
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Splits */}
+        {splits && splits.splits.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{showLaps ? 'Tours' : 'Temps intermédiaires'}</Text>
+              <View style={styles.segmentedControl}>
+                {splits.laps.length > 0 && (
+                  <TouchableOpacity
+                    style={[styles.segment, showLaps && styles.segmentActive]}
+                    onPress={() => setShowLaps(!showLaps)}
+                  >
+                    <Text style={[styles.segmentText, showLaps && styles.segmentTextActive]}>Tours</Text>
+                  </TouchableOpacity>
+                )}
+                {(['km', 'mi'] as SplitUnit[]).map((unit) => (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.segment, splitUnit === unit && styles.segmentActive]}
+                    onPress={() => setSplitUnit(unit)}
+                  >
+                    <Text style={[styles.segmentText, splitUnit === unit && styles.segmentTextActive]}>
+                      {unit}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            {renderSplits(showLaps ? splits.laps : splits.splits, splits.unit)}
+          </View>
+        )}
+
+        {/* Best efforts */}
+        {activity.best_efforts && activity.best_efforts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Meilleurs efforts</Text>
+            <View style={styles.effortsCard}>
+              {activity.best_efforts.map((effort, index) => (
+                <View
+                  key={effort.name}
+                  style={[styles.effortRow, index > 0 && styles.effortRowBorder]}
+                >
+                  <Text style={styles.effortName}>{bestEffortLabel(effort.name)}</Text>
+                  {effort.pr_rank !== null && (
+                    <View
+                      style={[
+                        styles.prBadge,
+                        { backgroundColor: (effort.pr_rank === 1 ? COLORS.warning : COLORS.textMuted) + '30' },
+                      ]}
+                    >
+                      <MaterialIcons
+                        name="emoji-events"
+                        size={14}
+                        color={effort.pr_rank === 1 ? COLORS.warning : COLORS.textSecondary}
+                      />
+                      <Text
+                        style={[
+                          styles.prBadgeText,
+                          { color: effort.pr_rank === 1 ? COLORS.warning : COLORS.textSecondary },
+                        ]}
+                      >
+                        {PR_RANK_LABELS[effort.pr_rank - 1]}
+                      </Text>
+                    </View>
+                  )}
+                  <Text style={styles.effortTime}>{formatEffortTime(effort.elapsed_time)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -353,6 +893,18 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  shareButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.primary + '20',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   deleteButton: {
     width: 40,
     height: 40,
@@ -368,6 +920,13 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.md,
     paddingBottom: SPACING.xxl,
   },
+  activityTitle: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    textAlign: 'center',
+    marginBottom: SPACING.sm,
+  },
   activityBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -389,6 +948,118 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.md,
     color: COLORS.textSecondary,
   },
+  notesCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    gap: SPACING.sm,
+  },
+  descriptionText: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textPrimary,
+    lineHeight: 22,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  exertionTag: {
+    backgroundColor: COLORS.warning + '20',
+  },
+  tagText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  cropCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  cropTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.xs,
+  },
+  cropTimes: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cropTime: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textSecondary,
+  },
+  cropDuration: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  cropActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  cropCancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    alignItems: 'center',
+  },
+  cropCancelText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  cropSaveButton: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    alignItems: 'center',
+  },
+  cropSaveText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  croppedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: COLORS.info + '20',
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    marginBottom: SPACING.lg,
+  },
+  croppedText: {
+    flex: 1,
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.info,
+    fontWeight: '500',
+  },
+  croppedUndo: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.info,
+    fontWeight: 'bold',
+  },
   mapContainer: {
     height: 300,
     borderRadius: BORDER_RADIUS.lg,
@@ -464,4 +1135,143 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.sm,
     color: COLORS.textSecondary,
   },
+  section: {
+    marginTop: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.md,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.full,
+    padding: 2,
+  },
+  segment: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  segmentActive: {
+    backgroundColor: COLORS.primary,
+  },
+  segmentText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  segmentTextActive: {
+    color: COLORS.background,
+  },
+  profileCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+  },
+  splitsCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    gap: SPACING.xs,
+  },
+  splitHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  splitHeader: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+    fontWeight: '600',
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    minHeight: 28,
+  },
+  splitCell: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textPrimary,
+  },
+  splitIndex: {
+    width: 32,
+  },
+  splitPace: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  splitBar: {
+    position: 'absolute',
+    left: 0,
+    top: 2,
+    bottom: 2,
+    borderRadius: 4,
+  },
+  splitPaceText: {
+    paddingLeft: SPACING.sm,
+    fontWeight: '600',
+  },
+  splitElevation: {
+    width: 56,
+    textAlign: 'right',
+  },
+  splitSpeed: {
+    width: 44,
+    textAlign: 'right',
+  },
+  splitFastest: {
+    color: COLORS.primary,
+    fontWeight: 'bold',
+  },
+  effortsCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    paddingHorizontal: SPACING.md,
+  },
+  effortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+    gap: SPACING.sm,
+  },
+  effortRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.surfaceLight,
+  },
+  effortName: {
+    flex: 1,
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  prBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  prBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: 'bold',
+  },
+  effortTime: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    minWidth: 64,
+    textAlign: 'right',
+  },
 });
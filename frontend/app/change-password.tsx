@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../src/context/AuthContext';
+import { getFieldErrors, FieldErrors } from '../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../src/constants/theme';
+
+export default function ChangePasswordScreen() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const { changePassword } = useAuth();
+  const router = useRouter();
+
+  const clearFieldError = (field: string) => {
+    if (fieldErrors[field]) {
+      setFieldErrors((prev) => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      Alert.alert('Erreur', 'Veuillez remplir tous les champs');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Erreur', 'Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    setIsLoading(true);
+    setFieldErrors({});
+    try {
+      await changePassword(currentPassword, newPassword);
+      Alert.alert('Succès', 'Mot de passe modifié. Vos autres appareils ont été déconnectés.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error: any) {
+      const errors = getFieldErrors(error);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        return;
+      }
+      if (error.response?.data?.detail === 'Current password is incorrect') {
+        setFieldErrors({ current_password: 'Mot de passe actuel incorrect' });
+        return;
+      }
+      const message = error.response?.data?.detail || 'Erreur lors du changement de mot de passe';
+      Alert.alert('Erreur', message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Mot de passe</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.form}>
+            <View style={[styles.inputContainer, fieldErrors.current_password && styles.inputContainerError]}>
+              <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.input}
+                placeholder="Mot de passe actuel"
+                placeholderTextColor={COLORS.textMuted}
+                value={currentPassword}
+                onChangeText={(value) => {
+                  setCurrentPassword(value);
+                  clearFieldError('current_password');
+                }}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
+                <MaterialIcons
+                  name={showPassword ? 'visibility' : 'visibility-off'}
+                  size={22}
+                  color={COLORS.textSecondary}
+                />
+              </TouchableOpacity>
+            </View>
+            {!!fieldErrors.current_password && (
+              <Text style={styles.fieldError}>{fieldErrors.current_password}</Text>
+            )}
+
+            <View style={[styles.inputContainer, fieldErrors.new_password && styles.inputContainerError]}>
+              <MaterialIcons name="lock-outline" size={22} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.input}
+                placeholder="Nouveau mot de passe"
+                placeholderTextColor={COLORS.textMuted}
+                value={newPassword}
+                onChangeText={(value) => {
+                  setNewPassword(value);
+                  clearFieldError('new_password');
+                }}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+            </View>
+            {!!fieldErrors.new_password && <Text style={styles.fieldError}>{fieldErrors.new_password}</Text>}
+
+            <View style={styles.inputContainer}>
+              <MaterialIcons name="lock-outline" size={22} color={COLORS.textSecondary} />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirmer le nouveau mot de passe"
+                placeholderTextColor={COLORS.textMuted}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, isLoading && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color={COLORS.background} />
+              ) : (
+                <Text style={styles.buttonText}>Modifier le mot de passe</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.lg,
+  },
+  form: {
+    gap: SPACING.md,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  inputContainerError: {
+    borderColor: COLORS.error,
+  },
+  fieldError: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.error,
+    marginTop: -SPACING.sm,
+    marginLeft: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.sm,
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../src/constants/theme';
+import api from '../src/services/api';
+import ActivityCard, { ActivitySummary } from '../src/components/ActivityCard';
+
+type TrashedActivity = ActivitySummary & { purge_at: string };
+
+// Deleted activities, kept 30 days before the server purges them
+export default function TrashScreen() {
+  const router = useRouter();
+  const [activities, setActivities] = useState<TrashedActivity[]>([]);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const response = await api.get('/activities/trash');
+      setActivities(response.data);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const toggleSelected = (activityId: string) => {
+    setSelection((current) =>
+      current.includes(activityId) ? current.filter((id) => id !== activityId) : [...current, activityId]
+    );
+  };
+
+  const handleRestore = async () => {
+    if (selection.length === 0) return;
+
+    setIsRestoring(true);
+    try {
+      const response = await api.post('/activities/restore', { activity_ids: selection });
+      const restored: string[] = response.data.activity_ids;
+      setActivities((previous) => previous.filter((activity) => !restored.includes(activity.id)));
+      setSelection([]);
+    } catch (error: any) {
+      console.error('Error restoring activities:', error);
+      Alert.alert('Erreur', error.response?.data?.detail || 'Impossible de restaurer les activités');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setIsRefreshing(true);
+    loadTrash();
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Corbeille</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={activities}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <ActivityCard
+              activity={item}
+              selected={selection.includes(item.id)}
+              onPress={() => toggleSelected(item.id)}
+              note={`Suppression définitive le ${format(new Date(item.purge_at), 'd MMMM', { locale: fr })}`}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} tintColor={COLORS.primary} />
+          }
+          ListHeaderComponent={
+            activities.length > 0 ? (
+              <Text style={styles.hint}>
+                Les activités sont supprimées définitivement 30 jours après avoir été placées dans la corbeille.
+              </Text>
+            ) : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <MaterialIcons name="delete-outline" size={48} color={COLORS.textMuted} />
+              <Text style={styles.emptyText}>La corbeille est vide</Text>
+            </View>
+          }
+        />
+      )}
+
+      {selection.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.restoreButton} onPress={handleRestore} disabled={isRestoring}>
+            {isRestoring ? (
+              <ActivityIndicator color={COLORS.textPrimary} />
+            ) : (
+              <>
+                <MaterialIcons name="restore" size={20} color={COLORS.textPrimary} />
+                <Text style={styles.restoreButtonText}>Restaurer ({selection.length})</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listContent: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xxl,
+  },
+  hint: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textMuted,
+    marginBottom: SPACING.md,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xxl,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+  },
+  footer: {
+    padding: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.surfaceLight,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: BORDER_RADIUS.lg,
+    backgroundColor: COLORS.primary,
+  },
+  restoreButtonText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+});
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../src/context/AuthContext';
+import api from '../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../src/constants/theme';
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauth_uri: string;
+}
+
+// Secret shown in groups of 4 characters to make it easier to type
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret;
+
+export default function TwoFactorSettingsScreen() {
+  const { user, reloadUser } = useAuth();
+  const router = useRouter();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const showError = (error: any, fallback: string) => {
+    const detail = error.response?.data?.detail;
+    const messages: Record<string, string> = {
+      'Invalid code': 'Code incorrect',
+      'Current password is incorrect': 'Mot de passe incorrect',
+    };
+    Alert.alert('Erreur', messages[detail] || detail || fallback);
+  };
+
+  const handleStartSetup = async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.post('/auth/2fa/setup');
+      setSetup(response.data);
+    } catch (error: any) {
+      showError(error, "Impossible de démarrer l'activation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauth_uri);
+    } catch (error) {
+      console.error('Error opening authenticator:', error);
+      Alert.alert('Erreur', "Aucune application d'authentification trouvée. Saisissez la clé manuellement.");
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      Alert.alert('Erreur', 'Saisissez le code à 6 chiffres');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await api.post('/auth/2fa/enable', { code: code.trim() });
+      setRecoveryCodes(response.data.recovery_codes);
+      setCode('');
+      await reloadUser();
+    } catch (error: any) {
+      showError(error, "Erreur lors de l'activation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!password || !code.trim()) {
+      Alert.alert('Erreur', 'Veuillez remplir tous les champs');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await api.post('/auth/2fa/disable', { password, code: code.trim() });
+      await reloadUser();
+      Alert.alert('Succès', 'Double authentification désactivée', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error: any) {
+      showError(error, 'Erreur lors de la désactivation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleShareRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await Share.share({
+      message: `Codes de récupération Strive (${user?.email}) :\n\n${recoveryCodes.join('\n')}`,
+    });
+  };
+
+  const renderRecoveryCodes = () => (
+    <>
+      <Text style={styles.sectionTitle}>Codes de récupération</Text>
+      <Text style={styles.description}>
+        Conservez ces codes en lieu sûr. Chacun permet de vous connecter une fois si vous perdez
+        votre téléphone. Ils ne seront plus affichés.
+      </Text>
+      <View style={styles.codesCard}>
+        {recoveryCodes!.map((recoveryCode) => (
+          <Text key={recoveryCode} style={styles.recoveryCode} selectable>
+            {recoveryCode}
+          </Text>
+        ))}
+      </View>
+      <TouchableOpacity style={styles.secondaryButton} onPress={handleShareRecoveryCodes}>
+        <MaterialIcons name="share" size={20} color={COLORS.primary} />
+        <Text style={styles.secondaryButtonText}>Enregistrer les codes</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={() => router.back()}>
+        <Text style={styles.buttonText}>Terminé</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderSetup = () =>
+    setup ? (
+      <>
+        <Text style={styles.sectionTitle}>1. Ajoutez le compte</Text>
+        <Text style={styles.description}>
+          {"Ouvrez votre application d'authentification (Google Authenticator, Authy, 1Password...) et ajoutez cette clé :"}
+        </Text>
+        <View style={styles.codesCard}>
+          <Text style={styles.secret} selectable>
+            {formatSecret(setup.secret)}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenAuthenticator}>
+          <MaterialIcons name="open-in-new" size={20} color={COLORS.primary} />
+          <Text style={styles.secondaryButtonText}>{"Ouvrir l'application"}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>2. Confirmez avec un code</Text>
+        <View style={styles.inputContainer}>
+          <MaterialIcons name="dialpad" size={22} color={COLORS.textSecondary} />
+          <TextInput
+            style={[styles.input, styles.codeInput]}
+            placeholder="123456"
+            placeholderTextColor={COLORS.textMuted}
+            value={code}
+            onChangeText={setCode}
+            keyboardType="number-pad"
+            maxLength={6}
+            autoComplete="one-time-code"
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.button, isLoading && styles.buttonDisabled]}
+          onPress={handleEnable}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator color={COLORS.background} />
+          ) : (
+            <Text style={styles.buttonText}>Activer</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    ) : (
+      <>
+        <Text style={styles.description}>
+          {"En plus de votre mot de passe, un code généré par une application d'authentification vous sera demandé à chaque connexion."}
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, isLoading && styles.buttonDisabled]}
+          onPress={handleStartSetup}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator color={COLORS.background} />
+          ) : (
+            <Text style={styles.buttonText}>Configurer</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+
+  const renderDisable = () => (
+    <>
+      <Text style={styles.description}>
+        {"La double authentification est activée. Pour la désactiver, confirmez votre mot de passe et saisissez un code de l'application ou un code de récupération."}
+      </Text>
+      <View style={styles.inputContainer}>
+        <MaterialIcons name="lock" size={22} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          placeholder="Mot de passe"
+          placeholderTextColor={COLORS.textMuted}
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          autoCapitalize="none"
+        />
+      </View>
+      <View style={styles.inputContainer}>
+        <MaterialIcons name="dialpad" size={22} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          placeholder="Code"
+          placeholderTextColor={COLORS.textMuted}
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+      <TouchableOpacity
+        style={[styles.dangerButton, isLoading && styles.buttonDisabled]}
+        onPress={handleDisable}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator color={COLORS.textPrimary} />
+        ) : (
+          <Text style={styles.dangerButtonText}>Désactiver</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <MaterialIcons name="arrow-back" size={24} color={COLORS.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Double authentification</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {recoveryCodes
+            ? renderRecoveryCodes()
+            : user?.two_factor_enabled
+              ? renderDisable()
+              : renderSetup()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.lg,
+    gap: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    marginTop: SPACING.sm,
+  },
+  description: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textSecondary,
+  },
+  codesCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  secret: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  recoveryCode: {
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    letterSpacing: 2,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.lg,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.sm,
+  },
+  codeInput: {
+    letterSpacing: 8,
+    fontWeight: 'bold',
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+  },
+  secondaryButtonText: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: COLORS.error,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  dangerButtonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+});
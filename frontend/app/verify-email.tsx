@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../src/context/AuthContext';
+import api from '../src/services/api';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS } from '../src/constants/theme';
+
+type VerificationStatus = 'pending' | 'verified' | 'failed';
+
+// Opened from the confirmation link sent by email (strive://verify-email?token=...)
+export default function VerifyEmailScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { isAuthenticated, reloadUser } = useAuth();
+  const router = useRouter();
+  const [status, setStatus] = useState<VerificationStatus>('pending');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      if (!token) {
+        setStatus('failed');
+        setMessage('Lien de confirmation incomplet.');
+        return;
+      }
+
+      try {
+        const response = await api.post('/auth/verify-email', { token });
+        setStatus('verified');
+        setMessage(`L'adresse ${response.data.email} est confirmée.`);
+      } catch (error: any) {
+        setStatus('failed');
+        setMessage(
+          error.response?.data?.detail === 'Email already in use'
+            ? 'Cette adresse est déjà utilisée par un autre compte.'
+            : 'Ce lien est invalide ou a expiré.'
+        );
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleContinue = async () => {
+    if (isAuthenticated && status === 'verified') {
+      try {
+        await reloadUser();
+      } catch (error) {
+        console.error('Error reloading user:', error);
+      }
+    }
+    router.replace('/');
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {status === 'pending' ? (
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      ) : (
+        <View style={styles.content}>
+          <MaterialIcons
+            name={status === 'verified' ? 'check-circle' : 'error-outline'}
+            size={64}
+            color={status === 'verified' ? COLORS.primary : COLORS.error}
+          />
+          <Text style={styles.title}>
+            {status === 'verified' ? 'Email confirmé' : 'Confirmation impossible'}
+          </Text>
+          <Text style={styles.message}>{message}</Text>
+          <TouchableOpacity style={styles.button} onPress={handleContinue}>
+            <Text style={styles.buttonText}>Continuer</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  title: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  message: {
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.xl,
+    marginTop: SPACING.md,
+  },
+  buttonText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+});
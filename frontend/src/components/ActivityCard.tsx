@@ -0,0 +1,144 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../constants/theme';
+import RouteThumbnail from './RouteThumbnail';
+
+// Activity as returned by the list endpoint (no GPS points)
+export interface ActivitySummary {
+  id: string;
+  activity_type: string;
+  title?: string;
+  distance: number;
+  duration: number;
+  avg_speed: number;
+  start_time: string;
+  summary_polyline?: string;
+}
+
+interface ActivityCardProps {
+  activity: ActivitySummary;
+  onPress: () => void;
+  onLongPress?: () => void;
+  // Shown in selection mode: a check box replaces the chevron
+  selected?: boolean;
+  // Extra line under the date
+  note?: string;
+}
+
+export default function ActivityCard({ activity, onPress, onLongPress, selected, note }: ActivityCardProps) {
+  const type = ACTIVITY_TYPES.find((a) => a.id === activity.activity_type);
+  const color = type?.color || COLORS.primary;
+
+  const formatDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m ${secs}s`;
+  };
+
+  const formatDistance = (meters: number) => {
+    if (meters >= 1000) {
+      return `${(meters / 1000).toFixed(2)} km`;
+    }
+    return `${Math.round(meters)} m`;
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, selected && styles.cardSelected]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <View style={[styles.iconContainer, { backgroundColor: color + '20' }]}>
+        {activity.summary_polyline ? (
+          <RouteThumbnail polyline={activity.summary_polyline} color={color} />
+        ) : (
+          <MaterialIcons name={(type?.icon || 'directions-run') as any} size={24} color={color} />
+        )}
+      </View>
+      <View style={styles.info}>
+        <Text style={styles.type} numberOfLines={1}>
+          {activity.title || type?.label || activity.activity_type}
+        </Text>
+        <Text style={styles.date}>
+          {format(new Date(activity.start_time), 'EEEE d MMMM', { locale: fr })}
+        </Text>
+        {!!note && <Text style={styles.note}>{note}</Text>}
+      </View>
+      <View style={styles.stats}>
+        <Text style={styles.distance}>{formatDistance(activity.distance)}</Text>
+        <Text style={styles.duration}>{formatDuration(activity.duration)}</Text>
+      </View>
+      {selected === undefined ? (
+        <MaterialIcons name="chevron-right" size={24} color={COLORS.textMuted} />
+      ) : (
+        <MaterialIcons
+          name={selected ? 'check-circle' : 'radio-button-unchecked'}
+          size={24}
+          color={selected ? COLORS.primary : COLORS.textMuted}
+        />
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  cardSelected: {
+    borderColor: COLORS.primary,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: BORDER_RADIUS.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  info: {
+    flex: 1,
+    marginLeft: SPACING.md,
+  },
+  type: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  date: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.warning,
+    marginTop: 2,
+  },
+  stats: {
+    alignItems: 'flex-end',
+    marginRight: SPACING.sm,
+  },
+  distance: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  duration: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textSecondary,
+  },
+});
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { COLORS, SPACING, BORDER_RADIUS, FONTS, ACTIVITY_TYPES } from '../constants/theme';
+
+export interface ActivityMetadata {
+  title: string;
+  description: string | null;
+  activity_type: string;
+  perceived_exertion: number | null;
+  tags: string[];
+}
+
+// The title is only sent when edited, so that the server can keep a default
+// title in line with a new activity type
+export type ActivityMetadataChanges = Omit<ActivityMetadata, 'title'> & { title?: string };
+
+interface ActivityEditFormProps {
+  initial: ActivityMetadata;
+  isSaving: boolean;
+  onSave: (metadata: ActivityMetadataChanges) => void;
+  onCancel: () => void;
+}
+
+const EXERTION_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Tags are typed as one comma separated field
+function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  return [...new Set(tags)];
+}
+
+export default function ActivityEditForm({ initial, isSaving, onSave, onCancel }: ActivityEditFormProps) {
+  const [title, setTitle] = useState(initial.title);
+  const [description, setDescription] = useState(initial.description || '');
+  const [activityType, setActivityType] = useState(initial.activity_type);
+  const [exertion, setExertion] = useState(initial.perceived_exertion);
+  const [tags, setTags] = useState(initial.tags.join(', '));
+
+  const handleSave = () => {
+    const trimmedTitle = title.trim();
+    onSave({
+      ...(trimmedTitle && trimmedTitle !== initial.title ? { title: trimmedTitle } : {}),
+      description: description.trim() || null,
+      activity_type: activityType,
+      perceived_exertion: exertion,
+      tags: parseTags(tags),
+    });
+  };
+
+  return (
+    <View style={styles.form}>
+      <Text style={styles.label}>Titre</Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={styles.input}
+          value={title}
+          onChangeText={setTitle}
+          placeholder="Titre"
+          placeholderTextColor={COLORS.textMuted}
+          maxLength={100}
+        />
+      </View>
+
+      <Text style={styles.label}>Description</Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Notes, sensations, météo..."
+          placeholderTextColor={COLORS.textMuted}
+          maxLength={2000}
+          multiline
+        />
+      </View>
+
+      <Text style={styles.label}>Type</Text>
+      <View style={styles.typeSelector}>
+        {ACTIVITY_TYPES.map((type) => (
+          <TouchableOpacity
+            key={type.id}
+            style={[
+              styles.typeButton,
+              activityType === type.id && { backgroundColor: type.color + '30', borderColor: type.color },
+            ]}
+            onPress={() => setActivityType(type.id)}
+          >
+            <MaterialIcons
+              name={type.icon as any}
+              size={20}
+              color={activityType === type.id ? type.color : COLORS.textMuted}
+            />
+            <Text style={[styles.typeButtonText, activityType === type.id && { color: type.color }]}>
+              {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Effort ressenti</Text>
+      <View style={styles.exertionRow}>
+        {EXERTION_LEVELS.map((level) => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.exertionButton, exertion === level && styles.exertionButtonActive]}
+            // Tapping the selected level clears it
+            onPress={() => setExertion(exertion === level ? null : level)}
+          >
+            <Text style={[styles.exertionText, exertion === level && styles.exertionTextActive]}>{level}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Tags</Text>
+      <View style={styles.inputContainer}>
+        <MaterialIcons name="label" size={20} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          value={tags}
+          onChangeText={setTags}
+          placeholder="fractionné, trail, ..."
+          placeholderTextColor={COLORS.textMuted}
+          autoCapitalize="none"
+        />
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={isSaving}>
+          <Text style={styles.cancelButtonText}>Annuler</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={COLORS.background} size="small" />
+          ) : (
+            <Text style={styles.saveButtonText}>Enregistrer</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  label: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: FONTS.sizes.md,
+    color: COLORS.textPrimary,
+    paddingVertical: SPACING.xs,
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+  },
+  typeButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  typeButtonText: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+    marginTop: 2,
+    fontWeight: '600',
+  },
+  exertionRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  exertionButton: {
+    flex: 1,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  exertionButtonActive: {
+    backgroundColor: COLORS.warning,
+  },
+  exertionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  exertionTextActive: {
+    color: COLORS.background,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { View, StyleSheet, Platform } from 'react-native';
 import { WebView } from 'react-native-webview';
 import { COLORS } from '../constants/theme';
@@ -18,6 +18,12 @@ interface NativeMapProps {
   followUserLocation?: boolean;
   onRegionChange?: (region: any) => void;
   mapRef?: React.RefObject<any>;
+  // Position marked on the track (e.g. while scrubbing a chart), moved without reloading the map
+  highlight?: { latitude: number; longitude: number } | null;
+  // Indices of the part of the track kept by a crop, the rest is dimmed
+  selection?: { start: number; end: number } | null;
+  // Places where the activity stopped, with the text of their popup
+  stops?: { latitude: number; longitude: number; label: string }[];
   style?: any;
 }
 
@@ -27,11 +33,26 @@ export default function NativeMap({
   activityColor,
   showStartMarker = true,
   showEndMarker = false,
+  highlight = null,
+  selection = null,
+  stops = [],
   style,
 }: NativeMapProps) {
-  
+  const webViewRef = useRef<WebView>(null);
+
+  useEffect(() => {
+    const position = highlight ? `[${highlight.latitude}, ${highlight.longitude}]` : 'null';
+    webViewRef.current?.injectJavaScript(`window.setHighlight && window.setHighlight(${position}); true;`);
+  }, [highlight]);
+
+  useEffect(() => {
+    const range = selection ? `[${selection.start}, ${selection.end}]` : 'null';
+    webViewRef.current?.injectJavaScript(`window.setSelection && window.setSelection(${range}); true;`);
+  }, [selection]);
+
   // Convert coordinates to JSON for the WebView
   const coordsJson = JSON.stringify(coordinates);
+  const stopsJson = JSON.stringify(stops);
   
   // Calculate zoom level from delta
   const zoom = useMemo(() => {
@@ -79,6 +100,22 @@ export default function NativeMap({
       border: 3px solid white;
       box-shadow: 0 2px 6px rgba(0,0,0,0.3);
     }
+    .stop-marker {
+      width: 14px;
+      height: 14px;
+      background: ${COLORS.warning};
+      border-radius: 50%;
+      border: 2px solid white;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+    }
+    .highlight-marker {
+      width: 14px;
+      height: 14px;
+      background: white;
+      border-radius: 50%;
+      border: 3px solid ${activityColor || COLORS.primary};
+      box-shadow: 0 2px 6px rgba(0,0,0,0.4);
+    }
     .current-marker {
       width: 16px;
       height: 16px;
@@ -99,6 +136,7 @@ export default function NativeMap({
   <div id="map"></div>
   <script>
     const coords = ${coordsJson};
+    const stops = ${stopsJson};
     const center = [${region.latitude}, ${region.longitude}];
     const zoom = ${zoom};
     const activityColor = '${activityColor || COLORS.primary}';
@@ -117,11 +155,12 @@ export default function NativeMap({
     }).addTo(map);
     
     // Draw polyline if we have coordinates
+    let trackLine = null;
     if (coords.length > 1) {
       const latlngs = coords.map(c => [c.latitude, c.longitude]);
       
       // Draw path
-      L.polyline(latlngs, {
+      trackLine = L.polyline(latlngs, {
         color: activityColor,
         weight: 4,
         opacity: 0.9,
@@ -154,6 +193,19 @@ export default function NativeMap({
           .addTo(map);
       }
       
+      // Stop markers
+      stops.forEach(stop => {
+        const stopIcon = L.divIcon({
+          className: 'custom-marker',
+          html: '<div class="stop-marker"></div>',
+          iconSize: [14, 14],
+          iconAnchor: [7, 7]
+        });
+        L.marker([stop.latitude, stop.longitude], { icon: stopIcon })
+          .bindPopup(stop.label)
+          .addTo(map);
+      });
+      
       // Fit bounds to show entire path
       map.fitBounds(latlngs, { padding: [30, 30] });
     } else if (coords.length === 1) {
@@ -167,6 +219,53 @@ export default function NativeMap({
       L.marker([coords[0].latitude, coords[0].longitude], { icon: currentIcon })
         .addTo(map);
     }
+
+    // Called from React Native with [lat, lng] or null
+    let highlightMarker = null;
+    window.setHighlight = function (position) {
+      if (!position) {
+        if (highlightMarker) {
+          highlightMarker.remove();
+          highlightMarker = null;
+        }
+        return;
+      }
+      if (!highlightMarker) {
+        const highlightIcon = L.divIcon({
+          className: 'custom-marker',
+          html: '<div class="highlight-marker"></div>',
+          iconSize: [14, 14],
+          iconAnchor: [7, 7]
+        });
+        highlightMarker = L.marker(position, { icon: highlightIcon, interactive: false }).addTo(map);
+      } else {
+        highlightMarker.setLatLng(position);
+      }
+    };
+
+    // Called from React Native with [startIndex, endIndex] or null
+    let selectionLayers = [];
+    window.setSelection = function (range) {
+      selectionLayers.forEach(layer => layer.remove());
+      selectionLayers = [];
+      if (trackLine) {
+        trackLine.setStyle({ opacity: range ? 0.3 : 0.9 });
+      }
+      if (!range || coords.length < 2) {
+        return;
+      }
+      const kept = coords.slice(range[0], range[1] + 1).map(c => [c.latitude, c.longitude]);
+      selectionLayers.push(L.polyline(kept, { color: activityColor, weight: 5, opacity: 1 }).addTo(map));
+      [kept[0], kept[kept.length - 1]].forEach(position => {
+        const boundIcon = L.divIcon({
+          className: 'custom-marker',
+          html: '<div class="highlight-marker"></div>',
+          iconSize: [14, 14],
+          iconAnchor: [7, 7]
+        });
+        selectionLayers.push(L.marker(position, { icon: boundIcon, interactive: false }).addTo(map));
+      });
+    };
   </script>
 </body>
 </html>
@@ -186,6 +285,7 @@ export default function NativeMap({
   return (
     <View style={[styles.container, style]}>
       <WebView
+        ref={webViewRef}
         source={{ html }}
         style={styles.webview}
         scrollEnabled={false}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, SPACING, FONTS } from '../constants/theme';
+
+export interface PeriodBar {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface PeriodBarChartProps {
+  bars: PeriodBar[];
+  color?: string;
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+// Simple bar chart, the last bar (current period) is highlighted
+export default function PeriodBarChart({
+  bars,
+  color = COLORS.primary,
+  height = 120,
+  formatValue = (value) => value.toFixed(0),
+}: PeriodBarChartProps) {
+  const max = Math.max(...bars.map((bar) => bar.value), 0);
+
+  return (
+    <View>
+      <Text style={styles.maxLabel}>{max > 0 ? formatValue(max) : ''}</Text>
+      <View style={[styles.bars, { height }]}>
+        {bars.map((bar, index) => {
+          const isCurrent = index === bars.length - 1;
+          return (
+            <View key={bar.key} style={styles.barSlot}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    height: max > 0 ? Math.max((bar.value / max) * height, bar.value > 0 ? 3 : 0) : 0,
+                    backgroundColor: isCurrent ? color : color + '60',
+                  },
+                ]}
+              />
+            </View>
+          );
+        })}
+      </View>
+      <View style={styles.labels}>
+        {bars.map((bar, index) => (
+          <Text key={bar.key} style={styles.label} numberOfLines={1}>
+            {index % 2 === bars.length % 2 ? '' : bar.label}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  maxLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+    marginBottom: SPACING.xs,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.surfaceLight,
+  },
+  barSlot: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  labels: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+    marginTop: SPACING.xs,
+  },
+  label: {
+    flex: 1,
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+    textAlign: 'center',
+  },
+});
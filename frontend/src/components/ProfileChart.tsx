@@ -0,0 +1,173 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { COLORS, SPACING, FONTS, BORDER_RADIUS } from '../constants/theme';
+
+export interface ProfilePoint {
+  // Meters from the start
+  distance: number;
+  value: number | null;
+}
+
+interface ProfileChartProps {
+  points: ProfilePoint[];
+  color: string;
+  formatValue: (value: number) => string;
+  // Scale from 0 instead of the lowest value (speeds)
+  fromZero?: boolean;
+  height?: number;
+  // Index of the point under the finger, null when released
+  onScrub?: (index: number | null) => void;
+}
+
+// Filled profile drawn with one column per point. Dragging a finger over it
+// shows the value at that distance.
+export default function ProfileChart({
+  points,
+  color,
+  formatValue,
+  fromZero = false,
+  height = 140,
+  onScrub,
+}: ProfileChartProps) {
+  const [scrubIndex, setScrubIndex] = useState<number | null>(null);
+  const widthRef = useRef(0);
+  const countRef = useRef(points.length);
+  const onScrubRef = useRef(onScrub);
+  countRef.current = points.length;
+  onScrubRef.current = onScrub;
+
+  const scrubTo = (x: number | null) => {
+    const index =
+      x === null || widthRef.current === 0
+        ? null
+        : Math.min(countRef.current - 1, Math.max(0, Math.floor((x / widthRef.current) * countRef.current)));
+    setScrubIndex(index);
+    onScrubRef.current?.(index);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => scrubTo(event.nativeEvent.locationX),
+      onPanResponderMove: (event) => scrubTo(event.nativeEvent.locationX),
+      onPanResponderRelease: () => scrubTo(null),
+      onPanResponderTerminate: () => scrubTo(null),
+    })
+  ).current;
+
+  const values = points.map((point) => point.value).filter((value): value is number => value !== null);
+  if (values.length === 0) {
+    return null;
+  }
+
+  const max = Math.max(...values);
+  const min = fromZero ? 0 : Math.min(...values);
+  // Keep some relief on flat profiles
+  const range = Math.max(max - min, fromZero ? 1 : 10);
+  const scrubbed = scrubIndex !== null ? points[scrubIndex] : null;
+
+  return (
+    <View>
+      <View style={styles.header}>
+        {scrubbed && scrubbed.value !== null ? (
+          <Text style={[styles.headerValue, { color }]}>
+            {formatValue(scrubbed.value)}
+            <Text style={styles.headerDistance}>  à {(scrubbed.distance / 1000).toFixed(2)} km</Text>
+          </Text>
+        ) : (
+          <Text style={styles.headerHint}>
+            {formatValue(min)} – {formatValue(max)}
+          </Text>
+        )}
+      </View>
+      <View
+        style={[styles.chart, { height }]}
+        onLayout={(event: LayoutChangeEvent) => {
+          widthRef.current = event.nativeEvent.layout.width;
+        }}
+        {...panResponder.panHandlers}
+      >
+        <View style={styles.columns} pointerEvents="none">
+          {points.map((point, index) => (
+            <View
+              key={index}
+              style={[
+                styles.column,
+                {
+                  height: point.value === null ? 0 : Math.max(1, ((point.value - min) / range) * (height - 4)),
+                  backgroundColor: index === scrubIndex ? color : color + '70',
+                },
+              ]}
+            />
+          ))}
+        </View>
+        {scrubIndex !== null && (
+          <View
+            pointerEvents="none"
+            style={[styles.cursor, { left: `${((scrubIndex + 0.5) / points.length) * 100}%` }]}
+          />
+        )}
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisLabel}>0 km</Text>
+        <Text style={styles.axisLabel}>
+          {points.length > 0 ? (points[points.length - 1].distance / 1000).toFixed(1) : '0'} km
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    height: 24,
+    justifyContent: 'center',
+    marginBottom: SPACING.xs,
+  },
+  headerValue: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: 'bold',
+  },
+  headerDistance: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: 'normal',
+    color: COLORS.textSecondary,
+  },
+  headerHint: {
+    fontSize: FONTS.sizes.sm,
+    color: COLORS.textMuted,
+  },
+  chart: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.surfaceLight,
+    borderRadius: BORDER_RADIUS.sm,
+    overflow: 'hidden',
+  },
+  columns: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  column: {
+    flex: 1,
+  },
+  cursor: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: COLORS.textPrimary,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: SPACING.xs,
+  },
+  axisLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: COLORS.textMuted,
+  },
+});
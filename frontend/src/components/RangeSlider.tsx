@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { COLORS, BORDER_RADIUS } from '../constants/theme';
+
+interface RangeSliderProps {
+  // Values go from 0 to max, in whole steps
+  max: number;
+  start: number;
+  end: number;
+  color: string;
+  onChange: (start: number, end: number) => void;
+}
+
+const HANDLE_SIZE = 24;
+
+// Slider with a start and an end handle. A touch moves the nearest handle,
+// and the handles cannot cross.
+export default function RangeSlider({ max, start, end, color, onChange }: RangeSliderProps) {
+  const [width, setWidth] = useState(0);
+  const widthRef = useRef(0);
+  const activeHandle = useRef<'start' | 'end'>('start');
+  // The responder is created once, so it reads the latest props from here
+  const latest = useRef({ max, start, end, onChange });
+  latest.current = { max, start, end, onChange };
+
+  const valueAt = (x: number) => {
+    const usable = widthRef.current - HANDLE_SIZE;
+    if (usable <= 0) return 0;
+    const ratio = Math.min(1, Math.max(0, (x - HANDLE_SIZE / 2) / usable));
+    return Math.round(ratio * latest.current.max);
+  };
+
+  const moveTo = (x: number) => {
+    const { start: currentStart, end: currentEnd, onChange: change } = latest.current;
+    const value = valueAt(x);
+    if (activeHandle.current === 'start') {
+      change(Math.min(value, currentEnd - 1), currentEnd);
+    } else {
+      change(currentStart, Math.max(value, currentStart + 1));
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        const value = valueAt(event.nativeEvent.locationX);
+        const { start: currentStart, end: currentEnd } = latest.current;
+        activeHandle.current = Math.abs(value - currentStart) <= Math.abs(value - currentEnd) ? 'start' : 'end';
+        moveTo(event.nativeEvent.locationX);
+      },
+      onPanResponderMove: (event) => moveTo(event.nativeEvent.locationX),
+    })
+  ).current;
+
+  const usable = Math.max(0, width - HANDLE_SIZE);
+  const startX = max > 0 ? (start / max) * usable : 0;
+  const endX = max > 0 ? (end / max) * usable : usable;
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={(event: LayoutChangeEvent) => {
+        widthRef.current = event.nativeEvent.layout.width;
+        setWidth(event.nativeEvent.layout.width);
+      }}
+      {...panResponder.panHandlers}
+    >
+      {/* Touches go to the container so locationX stays relative to it */}
+      <View style={StyleSheet.absoluteFill} pointerEvents="none">
+        <View style={styles.track} />
+        <View
+          style={[
+            styles.selectedTrack,
+            { left: HANDLE_SIZE / 2 + startX, width: endX - startX, backgroundColor: color },
+          ]}
+        />
+        <View style={[styles.handle, { left: startX, borderColor: color }]} />
+        <View style={[styles.handle, { left: endX, borderColor: color }]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: HANDLE_SIZE + 16,
+    justifyContent: 'center',
+  },
+  track: {
+    position: 'absolute',
+    left: HANDLE_SIZE / 2,
+    right: HANDLE_SIZE / 2,
+    top: (HANDLE_SIZE + 16) / 2 - 2,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  selectedTrack: {
+    position: 'absolute',
+    top: (HANDLE_SIZE + 16) / 2 - 2,
+    height: 4,
+    borderRadius: 2,
+  },
+  handle: {
+    position: 'absolute',
+    top: 8,
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 3,
+    backgroundColor: COLORS.textPrimary,
+  },
+});
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Coordinate, decodePolyline } from '../utils/geo';
+
+interface RouteThumbnailProps {
+  polyline: string;
+  color: string;
+  size?: number;
+  strokeWidth?: number;
+}
+
+// Small route drawing from an encoded polyline, one rotated View per segment
+export default function RouteThumbnail({ polyline, color, size = 48, strokeWidth = 2 }: RouteThumbnailProps) {
+  const segments = useMemo(() => {
+    const coordinates = decodePolyline(polyline);
+    if (coordinates.length < 2) return [];
+    return projectSegments(coordinates, size, size * 0.15);
+  }, [polyline, size]);
+
+  return (
+    <View style={{ width: size, height: size }}>
+      {segments.map((segment, index) => (
+        <View
+          key={index}
+          style={[
+            styles.segment,
+            {
+              left: segment.centerX - segment.length / 2,
+              top: segment.centerY - strokeWidth / 2,
+              width: segment.length,
+              height: strokeWidth,
+              borderRadius: strokeWidth / 2,
+              backgroundColor: color,
+              transform: [{ rotate: `${segment.angle}rad` }],
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+interface Segment {
+  centerX: number;
+  centerY: number;
+  length: number;
+  angle: number;
+}
+
+// Fit the route in the box keeping its proportions, north up
+function projectSegments(coordinates: Coordinate[], size: number, padding: number): Segment[] {
+  const scaleX = Math.cos((coordinates[0].latitude * Math.PI) / 180);
+  const xs = coordinates.map((c) => c.longitude * scaleX);
+  const ys = coordinates.map((c) => -c.latitude);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const span = Math.max(spanX, spanY) || 1;
+  const scale = (size - padding * 2) / span;
+  const offsetX = padding + (size - padding * 2 - spanX * scale) / 2;
+  const offsetY = padding + (size - padding * 2 - spanY * scale) / 2;
+
+  const points = xs.map((x, i) => ({ x: offsetX + (x - minX) * scale, y: offsetY + (ys[i] - minY) * scale }));
+  const segments: Segment[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    const length = Math.hypot(dx, dy);
+    if (length < 0.5) continue;
+    segments.push({
+      centerX: (points[i].x + points[i - 1].x) / 2,
+      centerY: (points[i].y + points[i - 1].y) / 2,
+      // Slightly longer so consecutive segments join without gaps
+      length: length + 1,
+      angle: Math.atan2(dy, dx),
+    });
+  }
+  return segments;
+}
+
+const styles = StyleSheet.create({
+  segment: {
+    position: 'absolute',
+  },
+});
@@ -1,32 +1,49 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
-import api from '../services/api';
+import Constants from 'expo-constants';
+import api, { setTokenRefresher } from '../services/api';
 
 interface User {
   id: string;
   name: string;
   email: string;
+  email_verified: boolean;
+  pending_email: string | null;
+  two_factor_enabled: boolean;
   photo?: string;
   created_at: string;
 }
 
+// Login either signs in directly or asks for a second factor
+export type LoginResult = { twoFactorRequired: false } | { twoFactorRequired: true; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   updateProfile: (data: { name?: string; email?: string; photo?: string }) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  reloadUser: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const TOKEN_KEY = 'strive_auth_token';
+const REFRESH_TOKEN_KEY = 'strive_refresh_token';
 const USER_KEY = 'strive_user';
 
+// Sent on login so the session can be recognized in the sessions list
+const deviceInfo = () => ({
+  device_name: Constants.deviceName ?? null,
+  platform: Platform.OS,
+});
+
 // Storage helper for cross-platform compatibility
 const storage = {
   async getItem(key: string): Promise<string | null> {
@@ -57,9 +74,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    setTokenRefresher(refreshSession);
     loadStoredAuth();
+    return () => setTokenRefresher(null);
   }, []);
 
+  const saveSession = async (accessToken: string, refreshToken: string, userData: User) => {
+    await storage.setItem(TOKEN_KEY, accessToken);
+    await storage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    await storage.setItem(USER_KEY, JSON.stringify(userData));
+
+    setToken(accessToken);
+    setUser(userData);
+    api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+  };
+
+  const clearSession = async () => {
+    await storage.removeItem(TOKEN_KEY);
+    await storage.removeItem(REFRESH_TOKEN_KEY);
+    await storage.removeItem(USER_KEY);
+    setToken(null);
+    setUser(null);
+    delete api.defaults.headers.common['Authorization'];
+  };
+
+  // Used by the api client when the access token has expired
+  const refreshSession = async (): Promise<string | null> => {
+    const refreshToken = await storage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      await clearSession();
+      return null;
+    }
+
+    try {
+      const response = await api.post('/auth/refresh', { refresh_token: refreshToken });
+      const { access_token, refresh_token, user: userData } = response.data;
+      await saveSession(access_token, refresh_token, userData);
+      return access_token;
+    } catch (error: any) {
+      // Keep the session on network errors, the refresh token may still be valid
+      if (error.response?.status === 401) {
+        await clearSession();
+      }
+      return null;
+    }
+  };
+
   const loadStoredAuth = async () => {
     try {
       const storedToken = await storage.getItem(TOKEN_KEY);
@@ -87,36 +147,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string) => {
-    const response = await api.post('/auth/login', { email, password });
-    const { access_token, user: userData } = response.data;
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    const response = await api.post('/auth/login', { email, password, ...deviceInfo() });
+    if (response.data.two_factor_required) {
+      return { twoFactorRequired: true, challengeToken: response.data.challenge_token };
+    }
 
-    await storage.setItem(TOKEN_KEY, access_token);
-    await storage.setItem(USER_KEY, JSON.stringify(userData));
+    const { access_token, refresh_token, user: userData } = response.data;
+    await saveSession(access_token, refresh_token, userData);
+    return { twoFactorRequired: false };
+  };
 
-    setToken(access_token);
-    setUser(userData);
-    api.defaults.headers.common['Authorization'] = `Bearer ${access_token}`;
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const response = await api.post('/auth/2fa/verify', { challenge_token: challengeToken, code });
+    const { access_token, refresh_token, user: userData } = response.data;
+
+    await saveSession(access_token, refresh_token, userData);
   };
 
   const register = async (name: string, email: string, password: string) => {
-    const response = await api.post('/auth/register', { name, email, password });
-    const { access_token, user: userData } = response.data;
-
-    await storage.setItem(TOKEN_KEY, access_token);
-    await storage.setItem(USER_KEY, JSON.stringify(userData));
+    const response = await api.post('/auth/register', { name, email, password, ...deviceInfo() });
+    const { access_token, refresh_token, user: userData } = response.data;
 
-    setToken(access_token);
-    setUser(userData);
-    api.defaults.headers.common['Authorization'] = `Bearer ${access_token}`;
+    await saveSession(access_token, refresh_token, userData);
   };
 
   const logout = async () => {
-    await storage.removeItem(TOKEN_KEY);
-    await storage.removeItem(USER_KEY);
-    setToken(null);
-    setUser(null);
-    delete api.defaults.headers.common['Authorization'];
+    const refreshToken = await storage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      try {
+        await api.post('/auth/logout', { refresh_token: refreshToken });
+      } catch (error) {
+        // Still log out locally when the server cannot be reached
+        console.error('Error revoking session:', error);
+      }
+    }
+    await clearSession();
   };
 
   const updateProfile = async (data: { name?: string; email?: string; photo?: string }) => {
@@ -126,6 +192,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await storage.setItem(USER_KEY, JSON.stringify(updatedUser));
   };
 
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    await api.post('/auth/change-password', {
+      current_password: currentPassword,
+      new_password: newPassword,
+    });
+  };
+
+  const reloadUser = async () => {
+    const response = await api.get('/auth/me');
+    setUser(response.data);
+    await storage.setItem(USER_KEY, JSON.stringify(response.data));
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -134,9 +213,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!token && !!user,
         login,
+        verifyTwoFactor,
         register,
         logout,
         updateProfile,
+        changePassword,
+        reloadUser,
       }}
     >
       {children}
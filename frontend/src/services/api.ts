@@ -23,14 +23,82 @@ api.interceptors.request.use(
   }
 );
 
+// Field-level errors returned by the backend validation layer (HTTP 422)
+export interface ApiFieldError {
+  location: 'body' | 'query' | 'params';
+  field: string;
+  message: string;
+}
+
+export type FieldErrors = Record<string, string>;
+
+// Map of field name to message, empty when the error is not a validation error
+export function getFieldErrors(error: any): FieldErrors {
+  return error?.fieldErrors || {};
+}
+
+// Seconds to wait before retrying a rate limited request (HTTP 429), or null
+export function getRetryAfter(error: any): number | null {
+  if (error?.response?.status !== 429) return null;
+  const seconds = Number(error.response.headers?.['retry-after']);
+  return Number.isFinite(seconds) ? seconds : 60;
+}
+
+// Called when the access token has expired or its session was revoked; resolves
+// with a new access token, or null when the session could not be refreshed
+type TokenRefresher = () => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+  tokenRefresher = refresher;
+}
+
+// Concurrent requests failing at the same time share a single refresh
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = tokenRefresher!().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error) => {
+    const originalRequest = error.config;
+    if (
+      error.response?.status === 401 &&
+      ['Token expired', 'Session revoked'].includes(error.response.data?.detail) &&
+      tokenRefresher &&
+      originalRequest &&
+      !originalRequest._retry
+    ) {
+      originalRequest._retry = true;
+      const newToken = await refreshAccessToken();
+      if (newToken) {
+        originalRequest.headers['Authorization'] = `Bearer ${newToken}`;
+        return api(originalRequest);
+      }
+    }
+
     if (error.response) {
       console.error('API Error:', error.response.status, error.response.data);
+
+      const errors: ApiFieldError[] | undefined = error.response.data?.errors;
+      if (error.response.status === 422 && Array.isArray(errors)) {
+        error.fieldErrors = errors.reduce<FieldErrors>((acc, fieldError) => {
+          if (!acc[fieldError.field]) {
+            acc[fieldError.field] = fieldError.message;
+          }
+          return acc;
+        }, {});
+      }
     } else if (error.request) {
       console.error('API No Response:', error.request);
     } else {
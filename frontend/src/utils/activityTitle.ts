@@ -0,0 +1,23 @@
+// Same default titles as the API, computed with the device's local hour
+
+const TITLE_NOUNS: Record<string, string> = {
+  running: 'Course',
+  cycling: 'Sortie vélo',
+  walking: 'Marche',
+  hiking: 'Randonnée',
+};
+
+export function defaultActivityTitle(activityType: string, startTime: Date): string {
+  const hour = startTime.getHours();
+  const moment =
+    hour >= 5 && hour < 12
+      ? 'du matin'
+      : hour >= 12 && hour < 14
+        ? 'du midi'
+        : hour >= 14 && hour < 18
+          ? "de l'après-midi"
+          : hour >= 18 && hour < 22
+            ? 'du soir'
+            : 'de nuit';
+  return `${TITLE_NOUNS[activityType] || 'Activité'} ${moment}`;
+}
@@ -0,0 +1,58 @@
+// Altitude and speed along an activity, sampled by distance for the profile charts
+
+import { calculateDistance } from './geo';
+
+interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  timestamp: string;
+}
+
+export interface ProfileSample {
+  // Index into gps_points, used to place the map marker
+  pointIndex: number;
+  distance: number;
+  altitude: number | null;
+  speed: number;
+}
+
+// Points on each side used to average the speed, raw GPS speeds are too jumpy
+const SPEED_WINDOW = 3;
+
+// Sample count evenly spread over the distance of the track
+export function buildProfile(points: TrackPoint[], sampleCount = 100): ProfileSample[] {
+  if (points.length < 2) return [];
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(
+      distances[i - 1] +
+        calculateDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude)
+    );
+  }
+  const times = points.map((point) => new Date(point.timestamp).getTime());
+  const total = distances[distances.length - 1];
+
+  // km/h between the points around an index
+  const speedAt = (index: number) => {
+    const from = Math.max(0, index - SPEED_WINDOW);
+    const to = Math.min(points.length - 1, index + SPEED_WINDOW);
+    const elapsed = (times[to] - times[from]) / 1000;
+    return elapsed > 0 ? ((distances[to] - distances[from]) / elapsed) * 3.6 : 0;
+  };
+
+  const samples: ProfileSample[] = [];
+  let index = 0;
+  for (let k = 0; k < sampleCount; k++) {
+    const target = (total * k) / (sampleCount - 1);
+    while (index < points.length - 1 && distances[index] < target) index++;
+    samples.push({
+      pointIndex: index,
+      distance: distances[index],
+      altitude: points[index].altitude,
+      speed: speedAt(index),
+    });
+  }
+  return samples;
+}
@@ -0,0 +1,49 @@
+// Display helpers for best efforts and personal records returned by the API
+
+export interface NewRecord {
+  name: string;
+  distance: number;
+  elapsed_time: number;
+  previous_elapsed_time: number | null;
+}
+
+const BEST_EFFORT_LABELS: Record<string, string> = {
+  '400m': '400 m',
+  '1k': '1 km',
+  '1mile': '1 mile',
+  '5k': '5 km',
+  '10k': '10 km',
+  '20k': '20 km',
+  '40k': '40 km',
+  '100k': '100 km',
+  half_marathon: 'Semi-marathon',
+  marathon: 'Marathon',
+};
+
+export function bestEffortLabel(name: string): string {
+  return BEST_EFFORT_LABELS[name] || name;
+}
+
+// Chronometer style: 4:05 or 1:02:03
+export function formatEffortTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+}
+
+// One line per record for the save confirmation
+export function describeNewRecords(records: NewRecord[]): string {
+  return records
+    .map((record) => {
+      const line = `${bestEffortLabel(record.name)} en ${formatEffortTime(record.elapsed_time)}`;
+      if (record.previous_elapsed_time === null) {
+        return line;
+      }
+      return `${line} (-${formatEffortTime(record.previous_elapsed_time - record.elapsed_time)})`;
+    })
+    .join('\n');
+}